@@ -1,11 +1,24 @@
-import React, { useState } from 'react';
-import { Property } from './types';
+import React, { useEffect, useState } from 'react';
+import { Property, ListView, SavedView, MemoBranding } from './types';
 import { PropertyCard } from './components/PropertyCard';
 import { PropertyDetail } from './components/PropertyDetail';
 import { LiveAssistant } from './components/LiveAssistant';
 import { AddPropertyModal } from './components/AddPropertyModal';
+import { PortfolioDashboard } from './components/PortfolioDashboard';
+import { PropertyComparison } from './components/PropertyComparison';
+import { ListControls } from './components/ListControls';
+import { ImportExportModal } from './components/ImportExportModal';
+import { InvestorMemoModal } from './components/InvestorMemoModal';
+import { SharedDealModal } from './components/SharedDealModal';
 import { fetchListingsByCity, fetchPropertyListing, SearchFilters } from './services/geminiService';
-import { Plus, LayoutGrid, Mic, Search, MapPin, Loader2, ArrowLeft, Heart, Home, Filter, SlidersHorizontal } from 'lucide-react';
+import { loadProperties, saveProperties, loadSavedViews, saveSavedViews, loadMemoBranding, saveMemoBranding } from './services/storageService';
+import { applyListView, DEFAULT_LIST_VIEW } from './utils/listView';
+import { getCity } from './utils/portfolio';
+import { applyActiveScenario } from './utils/scenarios';
+import { EditHistory, EMPTY_HISTORY, recordEdit, redoEdit, undoEdit } from './utils/history';
+import { ImportMode, mergeImport } from './utils/portfolioFile';
+import { DAMAGED_LINK_ERROR, isShareLink, readShareLink, SharedDealResult, toImportedCopy } from './utils/shareLink';
+import { Plus, LayoutGrid, Mic, Search, MapPin, Loader2, ArrowLeft, Heart, Home, Filter, SlidersHorizontal, PieChart, Columns, ArrowUpDown } from 'lucide-react';
 
 // Initial Data
 const INITIAL_PROPERTIES: Property[] = [
@@ -40,13 +53,25 @@ const INITIAL_PROPERTIES: Property[] = [
   }
 ];
 
+const MAX_COMPARE = 4;
+
 function App() {
   const [viewMode, setViewMode] = useState<'home' | 'dashboard'>('home');
   const [properties, setProperties] = useState<Property[]>(INITIAL_PROPERTIES);
   const [selectedId, setSelectedId] = useState<string>(INITIAL_PROPERTIES[0].id);
   const [isLiveOpen, setIsLiveOpen] = useState(false);
   const [isAddModalOpen, setIsAddModalOpen] = useState(false);
+  const [isImportExportOpen, setIsImportExportOpen] = useState(false);
+  const [isMemoOpen, setIsMemoOpen] = useState(false);
+  const [memoBranding, setMemoBranding] = useState<MemoBranding>({ firmName: '' });
   const [filterMode, setFilterMode] = useState<'all' | 'favorites'>('all');
+  const [mainView, setMainView] = useState<'property' | 'portfolio' | 'compare'>('property');
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+
+  // Sidebar sort / filter state
+  const [listView, setListView] = useState<ListView>(DEFAULT_LIST_VIEW);
+  const [savedViews, setSavedViews] = useState<SavedView[]>([]);
+  const [activeViewId, setActiveViewId] = useState<string | null>(null);
   
   // Home Search State
   const [searchQuery, setSearchQuery] = useState('');
@@ -63,17 +88,129 @@ function App() {
   });
   const [showFilters, setShowFilters] = useState(false);
 
+  // Local persistence: load once, then save after edits settle.
+  // Saving stays off if the load fails so a bad read can't overwrite the stored portfolio.
+  const [isStorageReady, setIsStorageReady] = useState(false);
+
+  useEffect(() => {
+    Promise.all([loadProperties(), loadSavedViews(), loadMemoBranding()])
+      .then(([stored, views, branding]) => {
+        if (stored.length > 0) {
+          setProperties(stored);
+          setSelectedId(stored[0].id);
+        }
+        setSavedViews(views);
+        if (branding) setMemoBranding(branding);
+        setIsStorageReady(true);
+      })
+      .catch(e => console.error("Storage load error:", e));
+  }, []);
+
+  useEffect(() => {
+    if (!isStorageReady) return;
+    const timer = setTimeout(() => {
+      saveProperties(properties).catch(e => console.error("Storage save error:", e));
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [properties, isStorageReady]);
+
+  useEffect(() => {
+    if (!isStorageReady) return;
+    saveSavedViews(savedViews).catch(e => console.error("Storage save error:", e));
+  }, [savedViews, isStorageReady]);
+
+  useEffect(() => {
+    if (!isStorageReady) return;
+    saveMemoBranding(memoBranding).catch(e => console.error("Storage save error:", e));
+  }, [memoBranding, isStorageReady]);
+
+  // Undo / redo stacks per property, kept for the session
+  const [histories, setHistories] = useState<Record<string, EditHistory>>({});
+
   const handlePropertyUpdate = (updated: Property) => {
+    const previous = properties.find(p => p.id === updated.id);
+    if (previous) {
+      const now = Date.now();
+      setHistories(h => ({ ...h, [updated.id]: recordEdit(h[updated.id] || EMPTY_HISTORY, previous, updated, now) }));
+    }
     setProperties(properties.map(p => p.id === updated.id ? updated : p));
   };
 
+  const handleHistoryStep = (direction: 'undo' | 'redo') => {
+    const current = properties.find(p => p.id === selectedId) || properties[0];
+    if (!current) return;
+    const history = histories[current.id] || EMPTY_HISTORY;
+    const step = direction === 'undo' ? undoEdit(history, current) : redoEdit(history, current);
+    if (!step) return;
+    setProperties(properties.map(p => p.id === current.id ? step.property : p));
+    setHistories({ ...histories, [current.id]: step.history });
+  };
+
+  // Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z or Ctrl+Y redoes. Text fields keep their own undo.
+  useEffect(() => {
+    if (viewMode !== 'dashboard' || mainView !== 'property') return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.metaKey || e.ctrlKey)) return;
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'TEXTAREA' || (target instanceof HTMLInputElement && target.type !== 'range')) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleHistoryStep('undo');
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        handleHistoryStep('redo');
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
   const handleAddProperty = (newProperty: Property) => {
     setProperties([newProperty, ...properties]);
     setSelectedId(newProperty.id);
     setViewMode('dashboard');
+    setMainView('property');
     setFilterMode('all'); // Switch to all to see the new property
   };
 
+  // Deal links (#deal=...) are read on load and whenever the fragment changes
+  const [sharedDeal, setSharedDeal] = useState<SharedDealResult | null>(null);
+
+  useEffect(() => {
+    const checkLink = () => {
+      if (!isShareLink(window.location.hash)) return;
+      readShareLink(window.location.hash)
+        .catch((): SharedDealResult => ({ property: null, error: DAMAGED_LINK_ERROR }))
+        .then(result => {
+          setSharedDeal(result);
+          setViewMode('dashboard');
+        });
+    };
+    checkLink();
+    window.addEventListener('hashchange', checkLink);
+    return () => window.removeEventListener('hashchange', checkLink);
+  }, []);
+
+  const closeSharedDeal = () => {
+    setSharedDeal(null);
+    // Drop the fragment so a reload doesn't offer the same deal again
+    window.history.replaceState(null, '', window.location.pathname + window.location.search);
+  };
+
+  const handleImportSharedDeal = () => {
+    if (sharedDeal?.property) handleAddProperty(toImportedCopy(sharedDeal.property));
+    closeSharedDeal();
+  };
+
+  const handleImport = (imported: Property[], mode: ImportMode) => {
+    const merged = mergeImport(properties, imported, mode);
+    setProperties(merged);
+    setSelectedId(imported[0].id);
+    setMainView('property');
+    if (mode === 'replace') setHistories({});
+  };
+
   const handleToggleFavorite = (id: string, e: React.MouseEvent) => {
     e.stopPropagation();
     setProperties(properties.map(p => 
@@ -85,11 +222,57 @@ function App() {
       setViewMode('home');
   };
 
-  // Filter properties based on sidebar tab
-  const filteredProperties = properties.filter(p => {
+  const handleSelectProperty = (id: string) => {
+      setSelectedId(id);
+      setMainView('property');
+  };
+
+  const handleToggleCompare = (id: string) => {
+      setCompareIds(ids => ids.includes(id)
+          ? ids.filter(i => i !== id)
+          : ids.length < MAX_COMPARE ? [...ids, id] : ids);
+  };
+
+  const handleStartCompare = () => {
+      if (mainView === 'compare') {
+          setMainView('property');
+          return;
+      }
+      // Start from the property being viewed
+      setCompareIds(ids => ids.length > 0 ? ids : [selectedId]);
+      setMainView('compare');
+  };
+
+  const handleListViewChange = (view: ListView) => {
+      setListView(view);
+      setActiveViewId(null); // edited views no longer match the saved one
+  };
+
+  const handleApplyView = (view: SavedView) => {
+      const { id, name, ...settings } = view;
+      setListView(settings);
+      setActiveViewId(id);
+  };
+
+  const handleSaveView = (name: string) => {
+      const view: SavedView = { ...listView, id: Date.now().toString(), name };
+      setSavedViews([...savedViews, view]);
+      setActiveViewId(view.id);
+  };
+
+  const handleDeleteView = (id: string) => {
+      setSavedViews(savedViews.filter(v => v.id !== id));
+      if (activeViewId === id) setActiveViewId(null);
+  };
+
+  // Filter properties based on sidebar tab, then the sort / filter view
+  const tabProperties = properties.filter(p => {
       if (filterMode === 'favorites') return p.isFavorite;
       return true;
   });
+  const filteredProperties = applyListView(tabProperties, listView);
+  const cityOptions = Array.from(new Set(properties.map(p => getCity(p.address)))).sort();
+  const tagOptions = Array.from(new Set(properties.flatMap(p => p.tags || []))).sort();
 
   // Ensure selected property handles deletion or filtering if needed, but usually we keep it visible or default to first available
   const selectedProperty = properties.find(p => p.id === selectedId) || properties[0];
@@ -180,15 +363,40 @@ function App() {
                  </div>
                  <h1 className="text-xl font-bold text-slate-800">PropVest AI</h1>
               </div>
-              <button 
-                onClick={handleBackToHome} 
-                className="text-slate-500 hover:text-indigo-600 flex items-center gap-2 text-sm font-medium px-3 py-1.5 rounded-lg hover:bg-indigo-50 transition-colors" 
-                title="Back to Home Search"
-              >
-                 <Home size={18} /> Home
-              </button>
+              <div className="flex items-center gap-1">
+                <button
+                  onClick={() => setIsImportExportOpen(true)}
+                  className="text-slate-500 hover:text-indigo-600 p-2 rounded-lg hover:bg-indigo-50 transition-colors"
+                  title="Import / Export Portfolio"
+                >
+                   <ArrowUpDown size={18} />
+                </button>
+                <button 
+                  onClick={handleBackToHome} 
+                  className="text-slate-500 hover:text-indigo-600 flex items-center gap-2 text-sm font-medium px-3 py-1.5 rounded-lg hover:bg-indigo-50 transition-colors" 
+                  title="Back to Home Search"
+                >
+                   <Home size={18} /> Home
+                </button>
+              </div>
             </div>
             
+            {/* Portfolio Overview / Compare */}
+            <div className="flex px-3 pt-3 gap-2">
+                <button
+                    onClick={() => setMainView(mainView === 'portfolio' ? 'property' : 'portfolio')}
+                    className={`flex-1 py-2 text-sm font-medium rounded-lg transition-colors flex items-center justify-center gap-2 ${mainView === 'portfolio' ? 'bg-indigo-600 text-white' : 'bg-indigo-50 text-indigo-700 hover:bg-indigo-100'}`}
+                >
+                    <PieChart size={16} /> Portfolio Overview
+                </button>
+                <button
+                    onClick={handleStartCompare}
+                    className={`flex-1 py-2 text-sm font-medium rounded-lg transition-colors flex items-center justify-center gap-2 ${mainView === 'compare' ? 'bg-indigo-600 text-white' : 'bg-indigo-50 text-indigo-700 hover:bg-indigo-100'}`}
+                >
+                    <Columns size={16} /> {mainView === 'compare' ? `Comparing ${compareIds.length}/${MAX_COMPARE}` : 'Compare'}
+                </button>
+            </div>
+
             {/* Filter Tabs */}
             <div className="flex p-3 gap-2 bg-white border-b border-slate-50">
                 <button 
@@ -204,9 +412,27 @@ function App() {
                     <Heart size={14} className={filterMode === 'favorites' ? 'fill-current' : ''} /> Favorites
                 </button>
             </div>
+
+            <ListControls
+              view={listView}
+              onChange={handleListViewChange}
+              savedViews={savedViews}
+              activeViewId={activeViewId}
+              onApplyView={handleApplyView}
+              onSaveView={handleSaveView}
+              onDeleteView={handleDeleteView}
+              cities={cityOptions}
+              tags={tagOptions}
+            />
             
             <div className="flex-1 overflow-y-auto p-4 space-y-4">
-               {filteredProperties.length === 0 && filterMode === 'favorites' ? (
+               {filteredProperties.length === 0 && tabProperties.length > 0 ? (
+                   <div className="flex flex-col items-center justify-center py-12 text-slate-400">
+                       <Filter size={48} className="mb-4 text-slate-200" />
+                       <p>No properties match these filters.</p>
+                       <button onClick={() => handleListViewChange({ ...DEFAULT_LIST_VIEW, sortBy: listView.sortBy, sortDirection: listView.sortDirection })} className="text-indigo-600 text-sm mt-2 hover:underline">Clear filters</button>
+                   </div>
+               ) : filteredProperties.length === 0 && filterMode === 'favorites' ? (
                    <div className="flex flex-col items-center justify-center py-12 text-slate-400">
                        <Heart size={48} className="mb-4 text-slate-200" />
                        <p>No favorites saved yet.</p>
@@ -217,12 +443,14 @@ function App() {
                        <p>No properties found.</p>
                    </div>
                ) : (
-                   filteredProperties.map(prop => (
+                   filteredProperties.map((prop, i) => (
                      <PropertyCard 
                        key={prop.id} 
                        property={prop} 
-                       isSelected={prop.id === selectedId}
-                       onClick={() => setSelectedId(prop.id)}
+                       rank={listView.sortBy === 'added' ? undefined : i + 1}
+                       isSelected={mainView === 'property' && prop.id === selectedId}
+                       compareSelected={mainView === 'compare' ? compareIds.includes(prop.id) : undefined}
+                       onClick={() => mainView === 'compare' ? handleToggleCompare(prop.id) : handleSelectProperty(prop.id)}
                        onToggleFavorite={(e) => handleToggleFavorite(prop.id, e)}
                      />
                    ))
@@ -244,11 +472,28 @@ function App() {
     
           {/* Main Content (Detail) */}
           <div className="flex-1 h-full relative hidden md:block">
-             {selectedProperty ? (
+             {mainView === 'compare' ? (
+                 <PropertyComparison
+                   properties={compareIds.map(id => properties.find(p => p.id === id)).filter((p): p is Property => !!p).map(applyActiveScenario)}
+                   onRemove={handleToggleCompare}
+                   onSelect={handleSelectProperty}
+                 />
+             ) : mainView === 'portfolio' ? (
+                 <PortfolioDashboard
+                   properties={properties}
+                   onSelect={handleSelectProperty}
+                   onUpdate={handlePropertyUpdate}
+                 />
+             ) : selectedProperty ? (
                  <>
                     <PropertyDetail 
                       property={selectedProperty} 
                       onUpdate={handlePropertyUpdate}
+                      canUndo={(histories[selectedProperty.id]?.past.length || 0) > 0}
+                      canRedo={(histories[selectedProperty.id]?.future.length || 0) > 0}
+                      onUndo={() => handleHistoryStep('undo')}
+                      onRedo={() => handleHistoryStep('redo')}
+                      onOpenMemo={() => setIsMemoOpen(true)}
                     />
                     {/* Add a small home button inside property detail too if needed, or rely on sidebar */}
                  </>
@@ -277,6 +522,27 @@ function App() {
             onClose={() => setIsAddModalOpen(false)} 
             onAdd={handleAddProperty}
           />
+          <ImportExportModal
+            isOpen={isImportExportOpen}
+            onClose={() => setIsImportExportOpen(false)}
+            properties={properties}
+            onImport={handleImport}
+          />
+          <SharedDealModal
+            deal={sharedDeal}
+            alreadyInPortfolio={!!sharedDeal?.property && properties.some(p => p.id === sharedDeal.property?.id)}
+            onImport={handleImportSharedDeal}
+            onDismiss={closeSharedDeal}
+          />
+          {selectedProperty && (
+            <InvestorMemoModal
+              isOpen={isMemoOpen}
+              onClose={() => setIsMemoOpen(false)}
+              property={applyActiveScenario(selectedProperty)}
+              branding={memoBranding}
+              onBrandingChange={setMemoBranding}
+            />
+          )}
         </div>
       );
   }
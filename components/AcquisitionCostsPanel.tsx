@@ -0,0 +1,143 @@
+import React, { useState } from 'react';
+import { Property, AcquisitionCosts, CostLineItem } from '../types';
+import {
+  buildDefaultAcquisitionCosts,
+  calculateAcquisitionCosts,
+  estimateFurnishing,
+  formatCurrency,
+  FURNISHING_TIERS
+} from '../utils/calculations';
+import { ExpenseInput } from './FormInputs';
+import { Hammer, Plus, Trash2, Sofa } from 'lucide-react';
+
+interface AcquisitionCostsPanelProps {
+  property: Property;
+  onUpdate: (p: Property) => void;
+}
+
+export const AcquisitionCostsPanel: React.FC<AcquisitionCostsPanelProps> = ({ property, onUpdate }) => {
+  const [tier, setTier] = useState<keyof typeof FURNISHING_TIERS>('standard');
+  const costs = property.acquisitionCosts;
+  const summary = calculateAcquisitionCosts(property);
+
+  const updateCosts = (changes: Partial<AcquisitionCosts>) => {
+    if (!costs) return;
+    onUpdate({ ...property, acquisitionCosts: { ...costs, ...changes } });
+  };
+
+  const updateRehabItem = (id: string, changes: Partial<CostLineItem>) => {
+    if (!costs) return;
+    updateCosts({ rehab: costs.rehab.map(item => (item.id === id ? { ...item, ...changes } : item)) });
+  };
+
+  const addRehabItem = () => {
+    if (!costs) return;
+    updateCosts({ rehab: [...costs.rehab, { id: Date.now().toString(), label: 'New item', amount: 0 }] });
+  };
+
+  return (
+    <section className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h3 className="font-semibold text-slate-700 flex items-center gap-2">
+          <Hammer size={18} /> Acquisition Costs
+        </h3>
+        <button
+          onClick={() => onUpdate({ ...property, acquisitionCosts: costs ? undefined : buildDefaultAcquisitionCosts(property) })}
+          className="text-xs text-indigo-600 hover:text-indigo-800 bg-indigo-50 hover:bg-indigo-100 px-2 py-1 rounded transition-colors"
+        >
+          {costs ? 'Use 3% Estimate' : 'Itemize Costs'}
+        </button>
+      </div>
+
+      {costs ? (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <ExpenseInput label="Lender Fees" value={costs.lenderFees} onChange={(v) => updateCosts({ lenderFees: v })} />
+            <ExpenseInput label="Title & Escrow" value={costs.titleEscrow} onChange={(v) => updateCosts({ titleEscrow: v })} />
+            <ExpenseInput label="Inspection" value={costs.inspection} onChange={(v) => updateCosts({ inspection: v })} />
+            {!property.financing && (
+              <ExpenseInput label="Points (% of Loan)" value={costs.pointsPercent} onChange={(v) => updateCosts({ pointsPercent: v })} suffix="%" />
+            )}
+            <ExpenseInput label="Other Closing" value={costs.otherClosing} onChange={(v) => updateCosts({ otherClosing: v })} />
+          </div>
+
+          {/* Rehab Budget */}
+          <div className="space-y-2">
+            <div className="flex justify-between items-center">
+              <span className="text-xs font-medium text-slate-500 uppercase">Rehab Budget</span>
+              <button onClick={addRehabItem} className="text-xs text-indigo-600 hover:text-indigo-800 flex items-center gap-1">
+                <Plus size={12} /> Add Line Item
+              </button>
+            </div>
+            {costs.rehab.length === 0 && <p className="text-xs text-slate-400 italic">No rehab planned.</p>}
+            {costs.rehab.map(item => (
+              <div key={item.id} className="flex gap-2 items-center">
+                <input
+                  type="text"
+                  value={item.label}
+                  onChange={(e) => updateRehabItem(item.id, { label: e.target.value })}
+                  className="flex-1 border border-slate-200 rounded p-2 text-sm text-slate-800 focus:ring-2 focus:ring-indigo-500 outline-none"
+                />
+                <input
+                  type="number"
+                  value={item.amount}
+                  onChange={(e) => updateRehabItem(item.id, { amount: parseFloat(e.target.value) || 0 })}
+                  className="w-32 border border-slate-200 rounded p-2 text-sm font-semibold text-slate-800 text-right focus:ring-2 focus:ring-indigo-500 outline-none"
+                />
+                <button
+                  onClick={() => updateCosts({ rehab: costs.rehab.filter(i => i.id !== item.id) })}
+                  className="text-slate-400 hover:text-red-600 p-1"
+                >
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            ))}
+          </div>
+
+          {/* Furnishing */}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+            <ExpenseInput label="Furnishing" value={costs.furnishing} onChange={(v) => updateCosts({ furnishing: v })} />
+            <ExpenseInput label="Setup & Supplies" value={costs.setup} onChange={(v) => updateCosts({ setup: v })} />
+            <div className="flex gap-2">
+              <select
+                value={tier}
+                onChange={(e) => setTier(e.target.value as keyof typeof FURNISHING_TIERS)}
+                className="flex-1 border border-slate-200 rounded p-2 text-sm text-slate-700"
+              >
+                {Object.entries(FURNISHING_TIERS).map(([key, perBed]) => (
+                  <option key={key} value={key}>{key[0].toUpperCase() + key.slice(1)} · {formatCurrency(perBed)}/bed</option>
+                ))}
+              </select>
+              <button
+                onClick={() => updateCosts({ furnishing: estimateFurnishing(property.bedrooms, FURNISHING_TIERS[tier]) })}
+                className="text-xs bg-slate-800 text-white px-3 rounded hover:bg-slate-700 flex items-center gap-1"
+                title={`Estimate for ${property.bedrooms} bedrooms plus common areas`}
+              >
+                <Sofa size={14} /> Estimate
+              </button>
+            </div>
+          </div>
+        </>
+      ) : (
+        <p className="text-xs text-slate-400 italic">
+          Closing costs are estimated at 3% of the price. Itemize to include lender fees, points, rehab and furnishing in your cash-on-cash return.
+        </p>
+      )}
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-2 text-center text-xs">
+        {[
+          { label: 'Down Payment', value: summary.downPayment },
+          { label: 'Closing Costs', value: summary.closingCosts },
+          { label: 'Rehab', value: summary.rehab },
+          { label: 'Furnishing', value: summary.furnishing },
+          { label: 'Total Cash In', value: summary.total },
+        ].map(item => (
+          <div key={item.label} className="bg-slate-50 p-2 rounded border border-slate-100">
+            <span className="text-[10px] font-bold text-slate-500 uppercase block">{item.label}</span>
+            <span className="font-mono font-semibold text-slate-800">{formatCurrency(item.value)}</span>
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+};
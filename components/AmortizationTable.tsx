@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import { Property } from '../types';
+import { formatCurrency } from '../utils/calculations';
+import { buildAmortizationSchedule } from '../utils/amortization';
+import { toCsv, downloadFile } from '../utils/csv';
+import { ExpenseInput } from './FormInputs';
+import { ChevronDown, ChevronUp, Download } from 'lucide-react';
+
+interface AmortizationTableProps {
+  property: Property;
+  onUpdate: (p: Property) => void;
+}
+
+const formatMonth = (yearMonth: string) => {
+  const [y, m] = yearMonth.split('-').map(Number);
+  return new Date(y, m - 1, 1).toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
+};
+
+export const AmortizationTable: React.FC<AmortizationTableProps> = ({ property, onUpdate }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const schedule = buildAmortizationSchedule(property);
+
+  const handleDownload = () => {
+    const csv = toCsv([
+      ['Payment #', 'Date', 'Payment', 'Principal', 'Interest', 'Extra Principal', 'PMI', 'Balance'],
+      ...schedule.rows.map(r => [
+        r.period,
+        r.date,
+        r.payment.toFixed(2),
+        r.principal.toFixed(2),
+        r.interest.toFixed(2),
+        r.extraPrincipal.toFixed(2),
+        r.pmi.toFixed(2),
+        r.balance.toFixed(2),
+      ]),
+    ]);
+    const slug = property.address.replace(/[^a-z0-9]+/gi, '-').toLowerCase();
+    downloadFile(`amortization-${slug}.csv`, csv, 'text/csv;charset=utf-8');
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <ExpenseInput
+          label="Extra Principal (Mo)"
+          value={property.extraPrincipalPayment || 0}
+          onChange={(v) => onUpdate({ ...property, extraPrincipalPayment: v })}
+        />
+        <div className="space-y-1">
+          <label className="text-xs font-medium text-slate-500 uppercase">First Payment</label>
+          <input
+            type="month"
+            value={property.loanStartDate || schedule.rows[0]?.date || ''}
+            onChange={(e) => onUpdate({ ...property, loanStartDate: e.target.value || undefined })}
+            className="w-full border border-slate-200 rounded p-2 text-sm font-semibold text-slate-800 focus:ring-2 focus:ring-indigo-500 outline-none"
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2 text-center">
+        <div className="bg-slate-50 p-2 rounded border border-slate-100">
+          <span className="text-[10px] font-bold text-slate-500 uppercase block">P&I / Mo</span>
+          <span className="font-mono font-semibold text-slate-800">{formatCurrency(schedule.monthlyPayment)}</span>
+        </div>
+        <div className="bg-slate-50 p-2 rounded border border-slate-100">
+          <span className="text-[10px] font-bold text-slate-500 uppercase block">Total Interest</span>
+          <span className="font-mono font-semibold text-red-600">{formatCurrency(schedule.totalInterest)}</span>
+        </div>
+        <div className="bg-slate-50 p-2 rounded border border-slate-100">
+          <span className="text-[10px] font-bold text-slate-500 uppercase block">Payoff</span>
+          <span className="font-mono font-semibold text-slate-800">{schedule.rows.length > 0 ? formatMonth(schedule.payoffDate) : '—'}</span>
+        </div>
+      </div>
+
+      {schedule.interestSaved > 0 && (
+        <p className="text-xs text-emerald-700 bg-emerald-50 border border-emerald-100 rounded p-2">
+          Extra principal saves {formatCurrency(schedule.interestSaved)} in interest and pays the loan off {Math.floor(schedule.monthsSaved / 12)} yrs {schedule.monthsSaved % 12} mo early.
+        </p>
+      )}
+
+      <div className="flex justify-between items-center">
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          className="text-sm text-indigo-600 hover:text-indigo-800 font-medium flex items-center gap-1"
+        >
+          {isOpen ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+          {isOpen ? 'Hide' : 'Show'} Amortization Schedule
+        </button>
+        <button
+          onClick={handleDownload}
+          disabled={schedule.rows.length === 0}
+          className="text-xs flex items-center gap-1 text-slate-600 hover:text-slate-800 bg-slate-100 hover:bg-slate-200 px-2 py-1 rounded transition-colors disabled:opacity-50"
+        >
+          <Download size={12} /> CSV
+        </button>
+      </div>
+
+      {isOpen && (
+        <div className="max-h-80 overflow-y-auto border border-slate-200 rounded-lg animate-fade-in">
+          <table className="w-full text-xs text-right">
+            <thead className="bg-slate-50 text-slate-500 uppercase sticky top-0">
+              <tr>
+                {['#', 'Date', 'Principal', 'Interest', 'Extra', 'Balance'].map(h => (
+                  <th key={h} className="px-3 py-2 font-bold">{h}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100 font-mono text-slate-700">
+              {schedule.rows.map(r => (
+                <tr key={r.period} className={r.period % 12 === 0 ? 'bg-slate-50/60' : ''}>
+                  <td className="px-3 py-1">{r.period}</td>
+                  <td className="px-3 py-1">{formatMonth(r.date)}</td>
+                  <td className="px-3 py-1">{formatCurrency(r.principal)}</td>
+                  <td className="px-3 py-1">{formatCurrency(r.interest)}</td>
+                  <td className="px-3 py-1">{formatCurrency(r.extraPrincipal)}</td>
+                  <td className="px-3 py-1">{formatCurrency(r.balance)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
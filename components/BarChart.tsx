@@ -0,0 +1,65 @@
+import React from 'react';
+
+export interface BarSeries {
+  name: string;
+  values: number[];
+  color: string; // tailwind bg class for positive values
+  negativeColor?: string; // tailwind bg class for negative values
+}
+
+interface BarChartProps {
+  labels: string[];
+  series: BarSeries[];
+  height?: number;
+  format?: (v: number) => string;
+}
+
+// Lightweight grouped bar chart rendered with plain divs (handles negative values)
+export const BarChart: React.FC<BarChartProps> = ({ labels, series, height = 160, format = (v) => v.toFixed(0) }) => {
+  const all = series.flatMap(s => s.values);
+  const max = Math.max(0, ...all);
+  const min = Math.min(0, ...all);
+  const range = max - min || 1;
+  const zeroOffset = (max / range) * height;
+
+  return (
+    <div className="space-y-2">
+      <div className="relative flex items-stretch gap-1" style={{ height }}>
+        <div className="absolute left-0 right-0 border-t border-slate-300" style={{ top: zeroOffset }}></div>
+        {labels.map((label, i) => (
+          <div key={i} className="flex-1 flex gap-px relative">
+            {series.map(s => {
+              const v = s.values[i] ?? 0;
+              const barHeight = (Math.abs(v) / range) * height;
+              return (
+                <div
+                  key={s.name}
+                  title={`${label} · ${s.name}: ${format(v)}`}
+                  className={`flex-1 self-start rounded-sm ${v >= 0 ? s.color : (s.negativeColor || 'bg-red-400')}`}
+                  style={{
+                    height: Math.max(barHeight, v === 0 ? 0 : 1),
+                    marginTop: v >= 0 ? zeroOffset - barHeight : zeroOffset,
+                  }}
+                ></div>
+              );
+            })}
+          </div>
+        ))}
+      </div>
+      <div className="flex gap-1 text-[10px] text-slate-400">
+        {labels.map((label, i) => (
+          <span key={i} className="flex-1 text-center truncate">{label}</span>
+        ))}
+      </div>
+      {series.length > 1 && (
+        <div className="flex gap-4 text-xs text-slate-500">
+          {series.map(s => (
+            <span key={s.name} className="flex items-center gap-1">
+              <span className={`w-2 h-2 rounded-sm ${s.color}`}></span> {s.name}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
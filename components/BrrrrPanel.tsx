@@ -0,0 +1,116 @@
+import React from 'react';
+import { Property, BrrrrAssumptions } from '../types';
+import { formatCurrency, formatPercent } from '../utils/calculations';
+import { buildDefaultBrrrr, calculateBrrrr } from '../utils/brrrr';
+import { ExpenseInput } from './FormInputs';
+import { Recycle, Infinity as InfinityIcon } from 'lucide-react';
+
+interface BrrrrPanelProps {
+  property: Property;
+  onUpdate: (p: Property) => void;
+}
+
+export const BrrrrPanel: React.FC<BrrrrPanelProps> = ({ property, onUpdate }) => {
+  const brrrr = property.brrrr;
+
+  const updateBrrrr = (field: keyof BrrrrAssumptions, value: number) => {
+    if (!brrrr) return;
+    onUpdate({ ...property, brrrr: { ...brrrr, [field]: value } });
+  };
+
+  const result = brrrr ? calculateBrrrr(property, brrrr) : null;
+
+  return (
+    <section className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h3 className="font-semibold text-slate-700 flex items-center gap-2">
+          <Recycle size={18} /> BRRRR & Refinance
+        </h3>
+        <button
+          onClick={() => onUpdate({ ...property, brrrr: brrrr ? undefined : buildDefaultBrrrr(property) })}
+          className="text-xs text-indigo-600 hover:text-indigo-800 bg-indigo-50 hover:bg-indigo-100 px-2 py-1 rounded transition-colors"
+        >
+          {brrrr ? 'Disable BRRRR' : 'Analyze as BRRRR'}
+        </button>
+      </div>
+
+      {!brrrr || !result ? (
+        <p className="text-xs text-slate-400 italic">
+          Model a distressed purchase with rehab financing, a carrying period and a cash-out refinance at the after-repair value.
+        </p>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div className="space-y-3">
+              <span className="text-xs font-bold text-slate-500 uppercase">Buy & Rehab</span>
+              <div className="grid grid-cols-2 gap-3">
+                <ExpenseInput label="Purchase Financed" value={brrrr.purchaseLoanPercent} onChange={(v) => updateBrrrr('purchaseLoanPercent', v)} suffix="%" />
+                <ExpenseInput label="Rehab Budget" value={brrrr.rehabBudget} onChange={(v) => updateBrrrr('rehabBudget', v)} />
+                <ExpenseInput label="Rehab Financed" value={brrrr.rehabLoanPercent} onChange={(v) => updateBrrrr('rehabLoanPercent', v)} suffix="%" />
+                <ExpenseInput label="Hard Money Rate" value={brrrr.shortTermRate} onChange={(v) => updateBrrrr('shortTermRate', v)} suffix="%" />
+                <ExpenseInput label="Hard Money Points" value={brrrr.shortTermPoints} onChange={(v) => updateBrrrr('shortTermPoints', v)} suffix="%" />
+                <ExpenseInput label="Rehab Period" value={brrrr.rehabMonths} onChange={(v) => updateBrrrr('rehabMonths', v)} suffix="mo" />
+              </div>
+            </div>
+            <div className="space-y-3">
+              <span className="text-xs font-bold text-slate-500 uppercase">Refinance</span>
+              <div className="grid grid-cols-2 gap-3">
+                <ExpenseInput label="After Repair Value" value={brrrr.afterRepairValue} onChange={(v) => updateBrrrr('afterRepairValue', v)} />
+                <ExpenseInput label="Refi LTV" value={brrrr.refiLtv} onChange={(v) => updateBrrrr('refiLtv', v)} suffix="%" />
+                <ExpenseInput label="Refi Rate" value={brrrr.refiRate} onChange={(v) => updateBrrrr('refiRate', v)} suffix="%" />
+                <ExpenseInput label="Refi Term" value={brrrr.refiTermYears} onChange={(v) => updateBrrrr('refiTermYears', v)} suffix="yr" />
+                <ExpenseInput label="Refi Closing" value={brrrr.refiClosingCostPercent} onChange={(v) => updateBrrrr('refiClosingCostPercent', v)} suffix="%" />
+              </div>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {[
+              { label: "Total Cash In", value: formatCurrency(result.totalCashIn), color: "text-slate-600" },
+              { label: "Cash Recovered", value: formatCurrency(result.cashRecovered), color: "text-emerald-600" },
+              { label: "Cash Left In Deal", value: formatCurrency(Math.max(result.cashLeftInDeal, 0)), color: result.cashLeftInDeal > 0 ? "text-slate-600" : "text-emerald-600" },
+              {
+                label: "Post-Refi CoC",
+                value: result.isInfiniteReturn ? '∞' : result.postRefiCashOnCash === null ? 'N/A' : formatPercent(result.postRefiCashOnCash),
+                color: "text-blue-600"
+              },
+            ].map((m, i) => (
+              <div key={i} className="bg-slate-50 p-3 rounded-lg border border-slate-100">
+                <p className="text-xs text-slate-500 uppercase font-bold">{m.label}</p>
+                <p className={`text-xl font-mono font-bold ${m.color}`}>{m.value}</p>
+              </div>
+            ))}
+          </div>
+
+          <dl className="grid grid-cols-2 md:grid-cols-3 gap-x-6 gap-y-1 text-xs">
+            {[
+              ['Short-Term Loan', result.shortTermLoan],
+              ['Carrying Costs', result.carryingCosts],
+              ['Refi Loan', result.refiLoanAmount],
+              ['Net Cash-Out', result.cashOut],
+              ['New P&I / Mo', result.postRefiPayment],
+              ['Post-Refi Cash Flow / Mo', result.postRefiCashFlow],
+              ['Equity After Refi', result.equityAfterRefi],
+            ].map(([label, value]) => (
+              <div key={label as string} className="flex justify-between border-b border-slate-100 py-1">
+                <dt className="text-slate-500">{label}</dt>
+                <dd className={`font-mono font-semibold ${(value as number) < 0 ? 'text-red-600' : 'text-slate-800'}`}>{formatCurrency(value as number)}</dd>
+              </div>
+            ))}
+          </dl>
+
+          {result.isInfiniteReturn && (
+            <p className="text-xs text-emerald-700 bg-emerald-50 border border-emerald-100 rounded p-2 flex items-center gap-2">
+              <InfinityIcon size={14} /> The refinance returns all of your cash and the property still cash flows: an infinite return.
+            </p>
+          )}
+          {result.postRefiCashFlow < 0 && (
+            <p className="text-xs text-red-700 bg-red-50 border border-red-100 rounded p-2">
+              The refinanced loan payment exceeds net operating income; consider a lower refi LTV.
+            </p>
+          )}
+        </>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,132 @@
+import React from 'react';
+import { Property, DispositionAssumptions, ExitValuation } from '../types';
+import { formatCurrency } from '../utils/calculations';
+import { buildDefaultDisposition, calculateDisposition } from '../utils/disposition';
+import { ExpenseInput } from './FormInputs';
+import { DoorOpen, ArrowRightLeft } from 'lucide-react';
+
+interface DispositionPanelProps {
+  property: Property;
+  onUpdate: (p: Property) => void;
+}
+
+const VALUATION_LABELS: Record<ExitValuation, string> = {
+  appreciation: 'Projected Appreciation',
+  salePrice: 'Fixed Sale Price',
+  capRate: 'Exit Cap Rate',
+};
+
+export const DispositionPanel: React.FC<DispositionPanelProps> = ({ property, onUpdate }) => {
+  const disposition = property.disposition || buildDefaultDisposition(property);
+  const result = calculateDisposition(property, disposition);
+
+  const updateDisposition = <K extends keyof DispositionAssumptions>(field: K, value: DispositionAssumptions[K]) => {
+    onUpdate({ ...property, disposition: { ...disposition, [field]: value } });
+  };
+
+  return (
+    <section className="space-y-6">
+      <div className="flex flex-wrap justify-between items-center gap-2">
+        <h3 className="font-semibold text-slate-700 flex items-center gap-2">
+          <DoorOpen size={18} /> Exit & Disposition
+        </h3>
+        <div className="flex gap-2 items-center text-xs">
+          <select
+            value={disposition.valuation}
+            onChange={(e) => updateDisposition('valuation', e.target.value as ExitValuation)}
+            className="border border-slate-200 rounded px-2 py-1 text-slate-700"
+          >
+            {(Object.keys(VALUATION_LABELS) as ExitValuation[]).map(v => (
+              <option key={v} value={v}>{VALUATION_LABELS[v]}</option>
+            ))}
+          </select>
+          <label className="flex items-center gap-1 text-slate-600 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={disposition.exchange1031}
+              onChange={(e) => updateDisposition('exchange1031', e.target.checked)}
+              className="accent-indigo-600"
+            />
+            1031 Exchange
+          </label>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <ExpenseInput label="Sale Year" value={disposition.saleYear} onChange={(v) => updateDisposition('saleYear', Math.max(1, Math.min(30, Math.round(v))))} suffix="yr" />
+        {disposition.valuation === 'salePrice' && (
+          <ExpenseInput label="Sale Price" value={disposition.salePrice} onChange={(v) => updateDisposition('salePrice', v)} />
+        )}
+        {disposition.valuation === 'capRate' && (
+          <ExpenseInput label="Exit Cap Rate" value={disposition.exitCapRate} onChange={(v) => updateDisposition('exitCapRate', v)} suffix="%" />
+        )}
+        <ExpenseInput label="Selling Costs" value={disposition.sellingCostPercent} onChange={(v) => updateDisposition('sellingCostPercent', v)} suffix="%" />
+        <ExpenseInput label="Capital Gains Rate" value={disposition.capitalGainsRate} onChange={(v) => updateDisposition('capitalGainsRate', v)} suffix="%" />
+        <ExpenseInput label="Recapture Rate" value={disposition.recaptureRate} onChange={(v) => updateDisposition('recaptureRate', v)} suffix="%" />
+        {disposition.exchange1031 && (
+          <>
+            <ExpenseInput label="Replacement LTV" value={disposition.replacementLtv} onChange={(v) => updateDisposition('replacementLtv', Math.min(95, v))} suffix="%" />
+            <ExpenseInput label="Replacement Cap" value={disposition.replacementCapRate} onChange={(v) => updateDisposition('replacementCapRate', v)} suffix="%" />
+          </>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {[
+          { label: `Sale Price (Yr ${result.saleYear})`, value: formatCurrency(result.salePrice), color: "text-slate-600" },
+          { label: "Net Sale Proceeds", value: formatCurrency(result.netSaleProceeds), color: result.netSaleProceeds >= 0 ? "text-emerald-600" : "text-red-600" },
+          { label: result.exchange ? "Tax Deferred" : "Tax Due at Sale", value: formatCurrency(result.totalTax), color: result.exchange ? "text-emerald-600" : "text-red-600" },
+          { label: "Equity Multiple", value: `${result.equityMultiple.toFixed(2)}x`, color: "text-blue-600" },
+        ].map((m, i) => (
+          <div key={i} className="bg-slate-50 p-3 rounded-lg border border-slate-100">
+            <p className="text-xs text-slate-500 uppercase font-bold">{m.label}</p>
+            <p className={`text-xl font-mono font-bold ${m.color}`}>{m.value}</p>
+          </div>
+        ))}
+      </div>
+
+      <dl className="grid grid-cols-2 md:grid-cols-3 gap-x-6 gap-y-1 text-xs">
+        {[
+          ['Selling Costs', -result.sellingCosts],
+          ['Loan Payoff', -result.loanPayoff],
+          ['Adjusted Basis', result.adjustedBasis],
+          ['Depreciation Taken', result.accumulatedDepreciation],
+          ['Total Gain', result.totalGain],
+          ['Recapture Tax', result.depreciationRecaptureTax],
+          ['Capital Gains Tax', result.capitalGainsTax],
+          ['After-Tax Proceeds', result.afterTaxProceeds],
+          ['Cumulative Cash Flow', result.cumulativeCashFlow],
+        ].map(([label, value]) => (
+          <div key={label as string} className="flex justify-between border-b border-slate-100 py-1">
+            <dt className="text-slate-500">{label}</dt>
+            <dd className={`font-mono font-semibold ${(value as number) < 0 ? 'text-red-600' : 'text-slate-800'}`}>{formatCurrency(value as number)}</dd>
+          </div>
+        ))}
+      </dl>
+
+      {result.exchange && (
+        <div className="bg-indigo-50 border border-indigo-100 rounded-lg p-4 space-y-2">
+          <p className="text-xs font-bold text-indigo-700 uppercase flex items-center gap-1">
+            <ArrowRightLeft size={14} /> Replacement Property
+          </p>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-xs">
+            {[
+              ['Equity Rolled', result.exchange.equityRolled],
+              ['Purchase Price', result.exchange.replacementPrice],
+              ['New Loan', result.exchange.replacementLoan],
+              ['NOI / Yr', result.exchange.replacementNOI],
+            ].map(([label, value]) => (
+              <div key={label as string}>
+                <p className="text-indigo-500">{label}</p>
+                <p className="font-mono font-semibold text-indigo-900">{formatCurrency(value as number)}</p>
+              </div>
+            ))}
+          </div>
+          <p className="text-[10px] text-indigo-500">
+            Rolling all net proceeds into a like-kind property defers {formatCurrency(result.exchange.taxDeferred)} of capital gains and recapture tax; the carried-over basis is taxed when the replacement is sold.
+          </p>
+        </div>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,147 @@
+import React from 'react';
+import { Property, LoanTranche, LoanType } from '../types';
+import { formatCurrency } from '../utils/calculations';
+import { getDownPayment, getLoanTranches, getTrancheAmount, LOAN_TYPE_LABELS } from '../utils/amortization';
+import { ExpenseInput } from './FormInputs';
+import { Landmark, Plus, Trash2, AlertTriangle } from 'lucide-react';
+
+interface FinancingPanelProps {
+  property: Property;
+  onUpdate: (p: Property) => void;
+  warnings: string[];
+}
+
+export const FinancingPanel: React.FC<FinancingPanelProps> = ({ property, onUpdate, warnings }) => {
+  const tranches = property.financing;
+  const totalLtv = getLoanTranches(property).reduce((sum, t) => sum + t.ltvPercent, 0);
+
+  const enableFinancing = () => {
+    const [primary] = getLoanTranches(property);
+    onUpdate({
+      ...property,
+      financing: [{ ...primary, id: Date.now().toString(), pmiRate: property.downPaymentPercent < 20 ? 0.5 : 0 }],
+    });
+  };
+
+  const updateTranche = (id: string, changes: Partial<LoanTranche>) => {
+    if (!tranches) return;
+    onUpdate({ ...property, financing: tranches.map(t => (t.id === id ? { ...t, ...changes } : t)) });
+  };
+
+  const changeType = (t: LoanTranche, type: LoanType) => {
+    const defaults: Partial<LoanTranche> =
+      type === 'arm' ? { armFixedYears: t.armFixedYears ?? 7, armResetRate: t.armResetRate ?? t.interestRate + 2 }
+      : type === 'interestOnly' ? { interestOnlyMonths: t.interestOnlyMonths || 120 }
+      : type === 'sellerCarry' ? { balloonYears: t.balloonYears ?? 5, pmiRate: 0 }
+      : type === 'dscr' ? { minDscr: t.minDscr ?? 1.25, pmiRate: 0 }
+      : {};
+    updateTranche(t.id, { type, ...defaults });
+  };
+
+  const addTranche = () => {
+    if (!tranches) return;
+    const sellerCarry: LoanTranche = {
+      id: Date.now().toString(),
+      label: 'Seller Carry',
+      type: 'sellerCarry',
+      ltvPercent: 10,
+      interestRate: 5,
+      termYears: 30,
+      interestOnlyMonths: 0,
+      balloonYears: 5,
+      pointsPercent: 0,
+      pmiRate: 0,
+    };
+    onUpdate({ ...property, financing: [...tranches, sellerCarry] });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <span className="text-sm font-medium text-slate-600 flex items-center gap-2">
+          <Landmark size={16} /> Financing Structure
+        </span>
+        <button
+          onClick={() => (tranches ? onUpdate({ ...property, financing: undefined }) : enableFinancing())}
+          className="text-xs text-indigo-600 hover:text-indigo-800 bg-indigo-50 hover:bg-indigo-100 px-2 py-1 rounded transition-colors"
+        >
+          {tranches ? 'Use Simple Loan' : 'Advanced Financing'}
+        </button>
+      </div>
+
+      {tranches && (
+        <div className="space-y-3">
+          {tranches.map(t => (
+            <div key={t.id} className="border border-slate-200 rounded-lg p-3 space-y-3 bg-slate-50/50">
+              <div className="flex gap-2 items-center">
+                <input
+                  type="text"
+                  value={t.label}
+                  onChange={(e) => updateTranche(t.id, { label: e.target.value })}
+                  className="flex-1 border border-slate-200 rounded p-1.5 text-sm font-semibold text-slate-800 focus:ring-2 focus:ring-indigo-500 outline-none"
+                />
+                <select
+                  value={t.type}
+                  onChange={(e) => changeType(t, e.target.value as LoanType)}
+                  className="border border-slate-200 rounded p-1.5 text-sm text-slate-700"
+                >
+                  {(Object.keys(LOAN_TYPE_LABELS) as LoanType[]).map(type => (
+                    <option key={type} value={type}>{LOAN_TYPE_LABELS[type]}</option>
+                  ))}
+                </select>
+                {tranches.length > 1 && (
+                  <button
+                    onClick={() => onUpdate({ ...property, financing: tranches.filter(x => x.id !== t.id) })}
+                    className="text-slate-400 hover:text-red-600 p-1"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                )}
+              </div>
+
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+                <ExpenseInput label="LTV" value={t.ltvPercent} onChange={(v) => updateTranche(t.id, { ltvPercent: v })} suffix="%" />
+                <ExpenseInput label="Rate" value={t.interestRate} onChange={(v) => updateTranche(t.id, { interestRate: v })} suffix="%" />
+                <ExpenseInput label="Term (Yrs)" value={t.termYears} onChange={(v) => updateTranche(t.id, { termYears: v })} suffix="yr" />
+                <ExpenseInput label="Interest-Only (Mo)" value={t.interestOnlyMonths} onChange={(v) => updateTranche(t.id, { interestOnlyMonths: v })} suffix="mo" />
+                <ExpenseInput label="Points" value={t.pointsPercent} onChange={(v) => updateTranche(t.id, { pointsPercent: v })} suffix="%" />
+                <ExpenseInput label="PMI (Annual)" value={t.pmiRate} onChange={(v) => updateTranche(t.id, { pmiRate: v })} suffix="%" />
+                {t.type === 'arm' && (
+                  <>
+                    <ExpenseInput label="Fixed Period (Yrs)" value={t.armFixedYears ?? 0} onChange={(v) => updateTranche(t.id, { armFixedYears: v })} suffix="yr" />
+                    <ExpenseInput label="Reset Rate" value={t.armResetRate ?? t.interestRate} onChange={(v) => updateTranche(t.id, { armResetRate: v })} suffix="%" />
+                  </>
+                )}
+                {t.type === 'sellerCarry' && (
+                  <ExpenseInput label="Balloon (Yr)" value={t.balloonYears ?? 0} onChange={(v) => updateTranche(t.id, { balloonYears: v || undefined })} suffix="yr" />
+                )}
+                {t.type === 'dscr' && (
+                  <ExpenseInput label="Min DSCR" value={t.minDscr ?? 0} onChange={(v) => updateTranche(t.id, { minDscr: v })} suffix="x" />
+                )}
+              </div>
+              <p className="text-[10px] text-slate-400">Loan amount {formatCurrency(getTrancheAmount(property, t))}</p>
+            </div>
+          ))}
+
+          <button onClick={addTranche} className="text-xs text-indigo-600 hover:text-indigo-800 flex items-center gap-1">
+            <Plus size={12} /> Add Loan Tranche
+          </button>
+
+          <div className={`text-xs rounded p-2 border ${totalLtv > 100 ? 'bg-red-50 border-red-100 text-red-700' : 'bg-slate-50 border-slate-100 text-slate-600'}`}>
+            Combined LTV {totalLtv.toFixed(1)}% · Cash down {formatCurrency(getDownPayment(property))}
+          </div>
+        </div>
+      )}
+
+      {warnings.length > 0 && (
+        <ul className="space-y-1">
+          {warnings.map(w => (
+            <li key={w} className="text-xs text-amber-800 bg-amber-50 border border-amber-100 rounded p-2 flex gap-2 items-start">
+              <AlertTriangle size={14} className="shrink-0 mt-0.5" /> {w}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,47 @@
+import React from 'react';
+
+// Shared inputs for the property analysis panels
+export const SliderInput: React.FC<{
+    label: string;
+    value: number;
+    onChange: (v: number) => void;
+    min: number;
+    max: number;
+    step: number;
+    format: (v: number) => string;
+}> = ({ label, value, onChange, min, max, step, format }) => (
+    <div className="space-y-2">
+        <div className="flex justify-between items-center text-sm">
+            <span className="text-slate-600">{label}</span>
+            <span className="font-semibold text-slate-900 bg-slate-100 px-2 py-0.5 rounded">{format(value)}</span>
+        </div>
+        <input 
+            type="range" 
+            min={min} max={max} step={step} 
+            value={value} 
+            onChange={(e) => onChange(parseFloat(e.target.value))}
+            className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+        />
+    </div>
+);
+
+export const ExpenseInput: React.FC<{
+    label: string;
+    value: number;
+    onChange: (v: number) => void;
+    suffix?: string;
+}> = ({ label, value, onChange, suffix }) => (
+    <div className="space-y-1">
+        <label className="text-xs font-medium text-slate-500 uppercase">{label}</label>
+        <div className="relative">
+             <span className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400 text-sm">{suffix ? '' : '$'}</span>
+             <input 
+                type="number" 
+                value={value} 
+                onChange={(e) => onChange(parseFloat(e.target.value) || 0)}
+                className="w-full border border-slate-200 rounded p-2 pl-6 text-sm font-semibold text-slate-800 focus:ring-2 focus:ring-indigo-500 outline-none"
+             />
+             {suffix && <span className="absolute right-3 top-1/2 -translate-y-1/2 text-slate-400 text-sm">{suffix}</span>}
+        </div>
+    </div>
+);
\ No newline at end of file
@@ -0,0 +1,209 @@
+import React, { useState } from 'react';
+import { Property } from '../types';
+import {
+  CSV_FIELDS,
+  CsvMapping,
+  csvToProperties,
+  exportPortfolioJson,
+  guessCsvMapping,
+  ImportMode,
+  ImportResult,
+  parsePortfolioJson,
+  portfolioToCsv,
+  readCsv,
+} from '../utils/portfolioFile';
+import { downloadFile } from '../utils/csv';
+import { X, Download, Upload, FileJson, FileSpreadsheet, AlertCircle, ArrowLeft } from 'lucide-react';
+
+interface ImportExportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  properties: Property[];
+  onImport: (properties: Property[], mode: ImportMode) => void;
+}
+
+const MAX_ERRORS_SHOWN = 8;
+
+export const ImportExportModal: React.FC<ImportExportModalProps> = ({ isOpen, onClose, properties, onImport }) => {
+  const [fileName, setFileName] = useState('');
+  const [csv, setCsv] = useState<{ headers: string[]; rows: string[][] } | null>(null);
+  const [mapping, setMapping] = useState<CsvMapping>([]);
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [mode, setMode] = useState<ImportMode>('merge');
+
+  if (!isOpen) return null;
+
+  const today = new Date().toISOString().slice(0, 10);
+
+  const reset = () => {
+    setFileName('');
+    setCsv(null);
+    setMapping([]);
+    setResult(null);
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  const handleFile = async (file: File) => {
+    reset();
+    setFileName(file.name);
+    const text = await file.text();
+    if (/\.json$/i.test(file.name) || /^\s*[[{]/.test(text)) {
+      setResult(parsePortfolioJson(text));
+      return;
+    }
+    const parsed = readCsv(text);
+    setCsv(parsed);
+    setMapping(guessCsvMapping(parsed.headers));
+  };
+
+  const handleImport = () => {
+    if (!result || result.properties.length === 0) return;
+    onImport(result.properties, mode);
+    handleClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/50 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-2xl max-h-[90vh] flex flex-col overflow-hidden animate-fade-in-up border border-slate-200">
+        <div className="p-4 border-b border-slate-100 flex justify-between items-center bg-slate-50">
+          <h3 className="font-semibold text-slate-800">Import / Export Portfolio</h3>
+          <button onClick={handleClose} className="text-slate-400 hover:text-slate-600 transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6 overflow-y-auto">
+          {/* Export */}
+          <section className="space-y-2">
+            <p className="text-sm font-medium text-slate-700">Export {properties.length} properties</p>
+            <div className="grid grid-cols-2 gap-2">
+              <button
+                onClick={() => downloadFile(`propvest-portfolio-${today}.json`, exportPortfolioJson(properties), 'application/json')}
+                className="border border-slate-200 rounded-lg p-3 text-left hover:bg-slate-50 transition-colors"
+              >
+                <span className="flex items-center gap-2 font-medium text-slate-800"><FileJson size={16} className="text-indigo-600" /> JSON backup</span>
+                <span className="text-xs text-slate-500">Everything, including images, scenarios and AI text.</span>
+              </button>
+              <button
+                onClick={() => downloadFile(`propvest-portfolio-${today}.csv`, portfolioToCsv(properties), 'text/csv;charset=utf-8')}
+                className="border border-slate-200 rounded-lg p-3 text-left hover:bg-slate-50 transition-colors"
+              >
+                <span className="flex items-center gap-2 font-medium text-slate-800"><FileSpreadsheet size={16} className="text-emerald-600" /> CSV spreadsheet</span>
+                <span className="text-xs text-slate-500">Base inputs only, one row per property.</span>
+              </button>
+            </div>
+          </section>
+
+          {/* Import */}
+          <section className="space-y-3 border-t border-slate-100 pt-6">
+            <div className="flex justify-between items-center">
+              <p className="text-sm font-medium text-slate-700">Import from a JSON backup or a CSV file</p>
+              <label className="bg-slate-800 text-white px-3 py-1.5 rounded hover:bg-slate-700 flex items-center gap-1 text-sm font-medium cursor-pointer">
+                <Upload size={14} /> Choose File
+                <input
+                  type="file"
+                  accept=".json,.csv,application/json,text/csv"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) handleFile(file);
+                    e.target.value = '';
+                  }}
+                />
+              </label>
+            </div>
+            {fileName && <p className="text-xs text-slate-500">{fileName}</p>}
+
+            {/* CSV column mapping */}
+            {csv && !result && (
+              <div className="space-y-3">
+                <p className="text-xs text-slate-500">
+                  Match each column to a property field. Address and Price are required. Rows whose ID matches a saved property update only the mapped columns; new rows use the usual defaults for unmapped fields.
+                </p>
+                <div className="border border-slate-200 rounded-lg overflow-hidden">
+                  <table className="w-full text-xs">
+                    <thead className="bg-slate-50 text-slate-600">
+                      <tr>
+                        <th className="px-3 py-2 text-left font-bold">Column</th>
+                        <th className="px-3 py-2 text-left font-bold">First Row</th>
+                        <th className="px-3 py-2 text-left font-bold">Field</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {csv.headers.map((header, col) => (
+                        <tr key={col} className="border-t border-slate-100">
+                          <td className="px-3 py-1.5 font-medium text-slate-700">{header || `Column ${col + 1}`}</td>
+                          <td className="px-3 py-1.5 text-slate-500 truncate max-w-[160px]">{csv.rows[0]?.[col]}</td>
+                          <td className="px-3 py-1.5">
+                            <select
+                              value={mapping[col] || ''}
+                              onChange={(e) => setMapping(mapping.map((m, i) => i === col ? e.target.value as CsvMapping[number] : m))}
+                              className="border border-slate-200 rounded px-2 py-1 text-slate-700 w-full"
+                            >
+                              <option value="">Skip</option>
+                              {CSV_FIELDS.map(f => (
+                                <option key={f.key} value={f.key} disabled={mapping.includes(f.key) && mapping[col] !== f.key}>{f.label}</option>
+                              ))}
+                            </select>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+                <button
+                  onClick={() => setResult(csvToProperties(csv.rows, mapping, properties))}
+                  className="w-full bg-indigo-600 text-white py-2 rounded-lg font-medium hover:bg-indigo-700 transition-colors"
+                >
+                  Check {csv.rows.length} rows
+                </button>
+              </div>
+            )}
+
+            {/* Review */}
+            {result && (
+              <div className="space-y-3">
+                {csv && (
+                  <button onClick={() => setResult(null)} className="text-xs text-indigo-600 hover:underline flex items-center gap-1">
+                    <ArrowLeft size={12} /> Back to column mapping
+                  </button>
+                )}
+                <p className="text-sm text-slate-700">
+                  <strong>{result.properties.length}</strong> {result.properties.length === 1 ? 'property is' : 'properties are'} ready to import.
+                </p>
+                {result.errors.length > 0 && (
+                  <div className="text-xs text-red-700 bg-red-50 border border-red-100 rounded p-3 space-y-1">
+                    <p className="font-semibold flex items-center gap-1"><AlertCircle size={14} /> {result.errors.length} problem{result.errors.length === 1 ? '' : 's'}; affected entries will be skipped</p>
+                    {result.errors.slice(0, MAX_ERRORS_SHOWN).map((error, i) => <p key={i}>{error}</p>)}
+                    {result.errors.length > MAX_ERRORS_SHOWN && <p>…and {result.errors.length - MAX_ERRORS_SHOWN} more.</p>}
+                  </div>
+                )}
+                <div className="flex gap-4 text-sm text-slate-700">
+                  <label className="flex items-center gap-2 cursor-pointer">
+                    <input type="radio" checked={mode === 'merge'} onChange={() => setMode('merge')} className="accent-indigo-600" />
+                    Merge (update matching IDs, add the rest)
+                  </label>
+                  <label className="flex items-center gap-2 cursor-pointer">
+                    <input type="radio" checked={mode === 'replace'} onChange={() => setMode('replace')} className="accent-indigo-600" />
+                    Replace the current portfolio
+                  </label>
+                </div>
+                <button
+                  onClick={handleImport}
+                  disabled={result.properties.length === 0}
+                  className="w-full bg-indigo-600 text-white py-2 rounded-lg font-medium hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 transition-colors"
+                >
+                  <Download size={16} /> Import {result.properties.length} Properties
+                </button>
+              </div>
+            )}
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+};
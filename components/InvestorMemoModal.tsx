@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import { MemoBranding, Property } from '../types';
+import { exportInvestorMemo } from '../utils/investorMemo';
+import { X, FileText, ImagePlus, Trash2, Loader2, AlertCircle } from 'lucide-react';
+
+interface InvestorMemoModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  property: Property; // with its active scenario applied
+  branding: MemoBranding;
+  onBrandingChange: (branding: MemoBranding) => void;
+}
+
+export const InvestorMemoModal: React.FC<InvestorMemoModalProps> = ({ isOpen, onClose, property, branding, onBrandingChange }) => {
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState('');
+
+  if (!isOpen) return null;
+
+  const handleLogo = (file: File) => {
+    if (!file.type.startsWith('image/')) {
+      setError('The logo must be an image file.');
+      return;
+    }
+    setError('');
+    const reader = new FileReader();
+    reader.onload = () => onBrandingChange({ ...branding, logo: reader.result as string });
+    reader.readAsDataURL(file);
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setError('');
+    try {
+      await exportInvestorMemo(property, branding);
+      onClose();
+    } catch (e) {
+      console.error(e);
+      setError('Could not build the memo. Please try again.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/50 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-md overflow-hidden animate-fade-in-up border border-slate-200">
+        <div className="p-4 border-b border-slate-100 flex justify-between items-center bg-slate-50">
+          <h3 className="font-semibold text-slate-800">Investor Memo</h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-5">
+          <p className="text-sm text-slate-600">
+            A PDF of <strong>{property.address}</strong> with the cover photo, specs, key metrics, expenses, AI analysis and market research sources.
+          </p>
+
+          {/* Branding, saved for every memo */}
+          <div className="space-y-3">
+            <label className="block">
+              <span className="text-xs font-bold text-slate-500 uppercase">Firm Name</span>
+              <input
+                type="text"
+                value={branding.firmName}
+                onChange={(e) => onBrandingChange({ ...branding, firmName: e.target.value })}
+                placeholder="e.g. Summit Capital Partners"
+                className="mt-1 w-full border border-slate-300 rounded px-3 py-2 text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+              />
+            </label>
+            <div>
+              <span className="text-xs font-bold text-slate-500 uppercase">Logo</span>
+              <div className="mt-1 flex items-center gap-3">
+                {branding.logo ? (
+                  <>
+                    <img src={branding.logo} alt="Firm logo" className="h-10 max-w-[140px] object-contain border border-slate-100 rounded p-1" />
+                    <button
+                      onClick={() => onBrandingChange({ ...branding, logo: undefined })}
+                      className="text-xs text-red-600 hover:text-red-700 flex items-center gap-1"
+                    >
+                      <Trash2 size={12} /> Remove
+                    </button>
+                  </>
+                ) : (
+                  <label className="border border-dashed border-slate-300 rounded px-3 py-2 text-sm text-slate-600 hover:bg-slate-50 flex items-center gap-2 cursor-pointer">
+                    <ImagePlus size={16} /> Upload logo
+                    <input
+                      type="file"
+                      accept="image/*"
+                      className="hidden"
+                      onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (file) handleLogo(file);
+                        e.target.value = '';
+                      }}
+                    />
+                  </label>
+                )}
+              </div>
+            </div>
+            <p className="text-xs text-slate-400">Firm name and logo are saved on this device and used on every memo.</p>
+          </div>
+
+          {error && (
+            <p className="text-xs text-red-700 bg-red-50 border border-red-100 rounded p-2 flex items-center gap-1">
+              <AlertCircle size={14} /> {error}
+            </p>
+          )}
+
+          <button
+            onClick={handleExport}
+            disabled={isExporting}
+            className="w-full bg-indigo-600 text-white py-2 rounded-lg font-medium hover:bg-indigo-700 disabled:opacity-50 flex items-center justify-center gap-2 transition-colors"
+          >
+            {isExporting ? <Loader2 size={16} className="animate-spin" /> : <FileText size={16} />}
+            Download PDF
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
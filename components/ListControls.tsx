@@ -0,0 +1,191 @@
+import React, { useState } from 'react';
+import { ListMetric, ListRange, ListSort, ListView, SavedView } from '../types';
+import { DEFAULT_LIST_VIEW, describeListView, LIST_METRICS, LIST_METRIC_LABELS, LIST_SORT_LABELS } from '../utils/listView';
+import { ArrowDownUp, Bookmark, Filter, FilterX, Save, Trash2 } from 'lucide-react';
+
+interface ListControlsProps {
+  view: ListView;
+  onChange: (view: ListView) => void;
+  savedViews: SavedView[];
+  activeViewId: string | null;
+  onApplyView: (view: SavedView) => void;
+  onSaveView: (name: string) => void;
+  onDeleteView: (id: string) => void;
+  cities: string[];
+  tags: string[];
+}
+
+const parseBound = (text: string) => (text.trim() === '' ? undefined : parseFloat(text));
+
+export const ListControls: React.FC<ListControlsProps> = ({
+  view, onChange, savedViews, activeViewId, onApplyView, onSaveView, onDeleteView, cities, tags
+}) => {
+  const [showFilters, setShowFilters] = useState(false);
+  const [viewName, setViewName] = useState('');
+  const summary = describeListView(view);
+
+  const updateRange = (metric: ListMetric, bound: keyof ListRange, value: number | undefined) => {
+    const range = { ...view.ranges[metric], [bound]: value };
+    const ranges = { ...view.ranges, [metric]: range };
+    if (range.min === undefined && range.max === undefined) delete ranges[metric];
+    onChange({ ...view, ranges });
+  };
+
+  const toggleIn = (list: string[], value: string) =>
+    list.includes(value) ? list.filter(v => v !== value) : [...list, value];
+
+  const handleSave = () => {
+    if (!viewName.trim()) return;
+    onSaveView(viewName.trim());
+    setViewName('');
+  };
+
+  return (
+    <div className="px-3 pb-3 space-y-2 border-b border-slate-50 text-xs">
+      {/* Sort */}
+      <div className="flex gap-2 items-center">
+        <select
+          value={view.sortBy}
+          onChange={(e) => onChange({ ...view, sortBy: e.target.value as ListSort })}
+          className="flex-1 border border-slate-200 rounded px-2 py-1.5 text-slate-700"
+        >
+          {(Object.keys(LIST_SORT_LABELS) as ListSort[]).map(m => <option key={m} value={m}>Sort: {LIST_SORT_LABELS[m]}</option>)}
+        </select>
+        <button
+          onClick={() => onChange({ ...view, sortDirection: view.sortDirection === 'asc' ? 'desc' : 'asc' })}
+          className="border border-slate-200 rounded px-2 py-1.5 text-slate-600 hover:bg-slate-50 flex items-center gap-1"
+          title="Reverse order"
+        >
+          <ArrowDownUp size={14} /> {view.sortBy === 'added'
+            ? (view.sortDirection === 'asc' ? 'Oldest' : 'Newest')
+            : (view.sortDirection === 'asc' ? 'Low → High' : 'High → Low')}
+        </button>
+        <button
+          onClick={() => setShowFilters(!showFilters)}
+          className={`border rounded px-2 py-1.5 flex items-center gap-1 ${summary ? 'border-indigo-300 bg-indigo-50 text-indigo-700' : 'border-slate-200 text-slate-600 hover:bg-slate-50'}`}
+        >
+          <Filter size={14} /> Filters
+        </button>
+      </div>
+
+      {/* Saved Views */}
+      <div className="flex gap-2 items-center">
+        <Bookmark size={14} className="text-slate-400 shrink-0" />
+        <select
+          value={activeViewId || ''}
+          onChange={(e) => {
+            const saved = savedViews.find(v => v.id === e.target.value);
+            if (saved) onApplyView(saved);
+          }}
+          className="flex-1 border border-slate-200 rounded px-2 py-1.5 text-slate-700"
+        >
+          <option value="" disabled>{savedViews.length ? 'Saved views…' : 'No saved views yet'}</option>
+          {savedViews.map(v => <option key={v.id} value={v.id}>{v.name}</option>)}
+        </select>
+        {activeViewId && (
+          <button onClick={() => onDeleteView(activeViewId)} className="text-slate-400 hover:text-red-600 p-1" title="Delete saved view">
+            <Trash2 size={14} />
+          </button>
+        )}
+      </div>
+
+      {summary && !showFilters && (
+        <p className="text-slate-500 truncate" title={summary}>{summary}</p>
+      )}
+
+      {showFilters && (
+        <div className="bg-slate-50 rounded-lg border border-slate-200 p-3 space-y-3">
+          <div className="grid grid-cols-[1fr_70px_70px] gap-1 items-center">
+            <span className="font-bold text-slate-500 uppercase text-[10px]">Metric</span>
+            <span className="font-bold text-slate-500 uppercase text-[10px]">Min</span>
+            <span className="font-bold text-slate-500 uppercase text-[10px]">Max</span>
+            {LIST_METRICS.map(m => (
+              <React.Fragment key={m}>
+                <span className="text-slate-600">{LIST_METRIC_LABELS[m]}</span>
+                {(['min', 'max'] as (keyof ListRange)[]).map(bound => (
+                  <input
+                    key={bound}
+                    type="number"
+                    value={view.ranges[m]?.[bound] ?? ''}
+                    onChange={(e) => updateRange(m, bound, parseBound(e.target.value))}
+                    className="w-full border border-slate-200 rounded px-1.5 py-1 font-mono text-slate-800 focus:ring-2 focus:ring-indigo-500 outline-none"
+                  />
+                ))}
+              </React.Fragment>
+            ))}
+          </div>
+
+          <div className="flex items-center gap-2">
+            <span className="text-slate-600">Min Beds</span>
+            <select
+              value={view.minBeds ?? ''}
+              onChange={(e) => onChange({ ...view, minBeds: e.target.value ? parseInt(e.target.value) : undefined })}
+              className="border border-slate-200 rounded px-2 py-1 text-slate-700"
+            >
+              <option value="">Any</option>
+              {[1, 2, 3, 4, 5].map(n => <option key={n} value={n}>{n}+</option>)}
+            </select>
+          </div>
+
+          {cities.length > 0 && (
+            <div className="space-y-1">
+              <span className="font-bold text-slate-500 uppercase text-[10px]">City</span>
+              <div className="flex flex-wrap gap-1">
+                {cities.map(c => (
+                  <button
+                    key={c}
+                    onClick={() => onChange({ ...view, cities: toggleIn(view.cities, c) })}
+                    className={`px-2 py-0.5 rounded-full border ${view.cities.includes(c) ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-slate-600 border-slate-200'}`}
+                  >
+                    {c}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {tags.length > 0 && (
+            <div className="space-y-1">
+              <span className="font-bold text-slate-500 uppercase text-[10px]">Tags</span>
+              <div className="flex flex-wrap gap-1">
+                {tags.map(t => (
+                  <button
+                    key={t}
+                    onClick={() => onChange({ ...view, tags: toggleIn(view.tags, t) })}
+                    className={`px-2 py-0.5 rounded-full border ${view.tags.includes(t) ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-slate-600 border-slate-200'}`}
+                  >
+                    #{t}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="flex gap-2 pt-2 border-t border-slate-200">
+            <input
+              value={viewName}
+              onChange={(e) => setViewName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+              placeholder="Name this view…"
+              className="flex-1 border border-slate-200 rounded px-2 py-1 text-slate-800 focus:ring-2 focus:ring-indigo-500 outline-none"
+            />
+            <button
+              onClick={handleSave}
+              disabled={!viewName.trim()}
+              className="bg-slate-800 text-white px-2 py-1 rounded hover:bg-slate-700 disabled:opacity-50 flex items-center gap-1"
+            >
+              <Save size={12} /> Save
+            </button>
+            <button
+              onClick={() => onChange({ ...DEFAULT_LIST_VIEW, sortBy: view.sortBy, sortDirection: view.sortDirection })}
+              className="text-slate-500 hover:text-red-600 px-1"
+              title="Clear filters"
+            >
+              <FilterX size={14} />
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
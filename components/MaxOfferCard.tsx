@@ -0,0 +1,73 @@
+import React from 'react';
+import { Property, OfferSolution, OfferTargetMetric } from '../types';
+import { DEFAULT_OFFER_TARGET, formatCurrency, formatPercent, OFFER_TARGET_LABELS } from '../utils/calculations';
+import { Target } from 'lucide-react';
+
+interface MaxOfferCardProps {
+  property: Property;
+  solution: OfferSolution;
+  onUpdate: (p: Property) => void;
+}
+
+const formatTargetValue = (metric: OfferTargetMetric, value: number) =>
+  metric === 'cashFlow' ? formatCurrency(value)
+  : metric === 'dscr' ? `${value.toFixed(2)}x`
+  : formatPercent(value);
+
+export const MaxOfferCard: React.FC<MaxOfferCardProps> = ({ property, solution, onUpdate }) => {
+  const target = property.offerTarget || DEFAULT_OFFER_TARGET;
+
+  return (
+    <section className="bg-white rounded-xl border border-slate-200 p-6 space-y-4">
+      <h3 className="font-bold text-lg text-slate-800 flex items-center gap-2">
+        <Target className="text-indigo-600" /> Max Offer
+      </h3>
+
+      <div className="grid grid-cols-2 gap-2">
+        <select
+          value={target.metric}
+          onChange={(e) => onUpdate({ ...property, offerTarget: { ...target, metric: e.target.value as OfferTargetMetric } })}
+          className="border border-slate-200 rounded p-2 text-sm text-slate-700"
+        >
+          {(Object.keys(OFFER_TARGET_LABELS) as OfferTargetMetric[]).map(m => (
+            <option key={m} value={m}>{OFFER_TARGET_LABELS[m]}</option>
+          ))}
+        </select>
+        <input
+          type="number"
+          step={target.metric === 'dscr' ? 0.05 : target.metric === 'cashFlow' ? 50 : 0.5}
+          value={target.value}
+          onChange={(e) => onUpdate({ ...property, offerTarget: { ...target, value: parseFloat(e.target.value) || 0 } })}
+          className="border border-slate-200 rounded p-2 text-sm font-semibold text-slate-800 focus:ring-2 focus:ring-indigo-500 outline-none"
+        />
+      </div>
+
+      {solution.unconstrained ? (
+        <p className="text-sm text-slate-600 bg-slate-50 border border-slate-200 rounded p-3">
+          No constraint: {OFFER_TARGET_LABELS[target.metric]} of {formatTargetValue(target.metric, target.value)} holds at any purchase price,
+          so it doesn't limit the offer. Choose another target to size one.
+        </p>
+      ) : solution.maxPrice !== null ? (
+        <div className="space-y-1">
+          <p className="text-3xl font-mono font-bold text-indigo-600">{formatCurrency(solution.maxPrice)}</p>
+          <p className="text-xs text-slate-500">
+            {solution.discountToList !== null && (
+              solution.discountToList >= 0
+                ? `${solution.discountToList.toFixed(1)}% below the current price`
+                : `${Math.abs(solution.discountToList).toFixed(1)}% above the current price`
+            )}
+            {solution.metricAtMaxPrice !== null && ` · ${formatTargetValue(target.metric, solution.metricAtMaxPrice)} at this price`}
+          </p>
+        </div>
+      ) : (
+        <p className="text-sm text-red-600 bg-red-50 border border-red-100 rounded p-3">
+          No purchase price reaches {formatTargetValue(target.metric, target.value)} with the current income and expense inputs.
+        </p>
+      )}
+
+      <p className="text-[10px] text-slate-400">
+        Highest price that still meets the target with financing, rent and expenses held fixed. Passed to Gemini with each refresh.
+      </p>
+    </section>
+  );
+};
@@ -0,0 +1,162 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Property, MonteCarloConfig, MonteCarloResult } from '../types';
+import { formatCurrency, formatPercent } from '../utils/calculations';
+import { DEFAULT_MONTE_CARLO } from '../utils/monteCarlo';
+import { startMonteCarlo, SimulationHandle } from '../services/simulationService';
+import { ExpenseInput } from './FormInputs';
+import { BarChart } from './BarChart';
+import { Dices, Loader2, Play, Square } from 'lucide-react';
+
+interface MonteCarloPanelProps {
+  property: Property;
+}
+
+const ITERATION_OPTIONS = [1000, 10000, 25000, 50000];
+
+export const MonteCarloPanel: React.FC<MonteCarloPanelProps> = ({ property }) => {
+  const [config, setConfig] = useState<MonteCarloConfig>(DEFAULT_MONTE_CARLO);
+  const [result, setResult] = useState<MonteCarloResult | null>(null);
+  const [resultInputs, setResultInputs] = useState<Property | null>(null); // the property as it was when the result was run
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState('');
+  const handleRef = useRef<SimulationHandle | null>(null);
+
+  // Results belong to one property: stop any running worker and clear them when switching
+  useEffect(() => {
+    setResult(null);
+    setError('');
+    setProgress(null);
+    return () => {
+      handleRef.current?.cancel();
+      handleRef.current = null;
+    };
+  }, [property.id]);
+
+  const updateConfig = (field: keyof MonteCarloConfig, value: number) => {
+    setConfig(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleRun = async () => {
+    handleRef.current?.cancel();
+    setError('');
+    setProgress(0);
+    const inputs = property;
+    const handle = startMonteCarlo(inputs, config, setProgress);
+    handleRef.current = handle;
+    try {
+      setResult(await handle.promise);
+      setResultInputs(inputs);
+    } catch (e) {
+      if (handleRef.current === handle) setError((e as Error).message);
+    } finally {
+      if (handleRef.current === handle) {
+        handleRef.current = null;
+        setProgress(null);
+      }
+    }
+  };
+
+  const handleCancel = () => {
+    const handle = handleRef.current;
+    handleRef.current = null;
+    handle?.cancel();
+    setProgress(null);
+  };
+
+  const isRunning = progress !== null;
+  // Any edit (including a scenario switch) gives a new property, so the last run no longer matches it
+  const isStale = result !== null && resultInputs !== property;
+
+  return (
+    <section className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h3 className="font-semibold text-slate-700 flex items-center gap-2">
+          <Dices size={18} /> Monte Carlo Risk Simulation
+        </h3>
+        <div className="flex gap-2 items-center text-xs">
+          <select
+            value={config.iterations}
+            onChange={(e) => updateConfig('iterations', parseInt(e.target.value))}
+            className="border border-slate-200 rounded px-2 py-1 text-slate-700"
+          >
+            {ITERATION_OPTIONS.map(n => <option key={n} value={n}>{n.toLocaleString()} runs</option>)}
+          </select>
+          <button
+            onClick={isRunning ? handleCancel : handleRun}
+            className="bg-slate-800 text-white px-3 py-1.5 rounded hover:bg-slate-700 flex items-center gap-1 font-medium"
+          >
+            {isRunning ? <><Square size={12} /> Stop</> : <><Play size={12} /> Run</>}
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <ExpenseInput label="Seed" value={config.seed} onChange={(v) => updateConfig('seed', v)} suffix="#" />
+        <ExpenseInput label="Occupancy σ" value={config.occupancySd} onChange={(v) => updateConfig('occupancySd', v)} suffix="%" />
+        <ExpenseInput label="ADR σ" value={config.adrSd} onChange={(v) => updateConfig('adrSd', v)} suffix="%" />
+        <ExpenseInput label="Expense Infl. Mean" value={config.expenseInflationMean} onChange={(v) => updateConfig('expenseInflationMean', v)} suffix="%" />
+        <ExpenseInput label="Expense Infl. σ" value={config.expenseInflationSd} onChange={(v) => updateConfig('expenseInflationSd', v)} suffix="%" />
+        <ExpenseInput label="Vacancy Shock Odds" value={config.vacancyShockProbability} onChange={(v) => updateConfig('vacancyShockProbability', v)} suffix="%" />
+        <ExpenseInput label="Shock Length" value={config.vacancyShockMonths} onChange={(v) => updateConfig('vacancyShockMonths', v)} suffix="mo" />
+        <ExpenseInput label="Rate Reset Odds" value={config.rateResetProbability} onChange={(v) => updateConfig('rateResetProbability', v)} suffix="%" />
+        <ExpenseInput label="Rate Reset Size" value={config.rateResetDelta} onChange={(v) => updateConfig('rateResetDelta', v)} suffix="pts" />
+        <ExpenseInput label="Appreciation σ" value={config.appreciationSd} onChange={(v) => updateConfig('appreciationSd', v)} suffix="pts" />
+      </div>
+
+      {isRunning && (
+        <div className="space-y-1">
+          <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+            <div className="h-full bg-indigo-500 transition-all" style={{ width: `${(progress / config.iterations) * 100}%` }}></div>
+          </div>
+          <p className="text-xs text-slate-500 flex items-center gap-1">
+            <Loader2 size={12} className="animate-spin" /> Simulating {progress.toLocaleString()} / {config.iterations.toLocaleString()}
+          </p>
+        </div>
+      )}
+
+      {error && <div className="text-red-600 text-sm bg-red-50 p-3 rounded-lg border border-red-100">{error}</div>}
+
+      {isStale && !isRunning && (
+        <p className="text-xs text-amber-700 bg-amber-50 border border-amber-100 rounded p-2">
+          The inputs changed since this simulation ran. Run it again to update the results.
+        </p>
+      )}
+
+      {result && (
+        <div className={`space-y-4 animate-fade-in ${isStale ? 'opacity-50' : ''}`}>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {[
+              { label: "P(Cash Flow < 0)", value: formatPercent(result.probabilityNegativeCashFlow), color: result.probabilityNegativeCashFlow > 25 ? "text-red-600" : "text-emerald-600" },
+              { label: "CoC P10", value: formatPercent(result.cashOnCash.p10), color: "text-slate-600" },
+              { label: "CoC P50", value: formatPercent(result.cashOnCash.p50), color: "text-blue-600" },
+              { label: "CoC P90", value: formatPercent(result.cashOnCash.p90), color: "text-slate-600" },
+            ].map((m, i) => (
+              <div key={i} className="bg-slate-50 p-3 rounded-lg border border-slate-100">
+                <p className="text-xs text-slate-500 uppercase font-bold">{m.label}</p>
+                <p className={`text-xl font-mono font-bold ${m.color}`}>{m.value}</p>
+              </div>
+            ))}
+          </div>
+
+          <div className="bg-white rounded-lg border border-slate-200 p-4 space-y-2">
+            <p className="text-xs font-bold text-slate-500 uppercase">Cash on Cash Distribution</p>
+            <BarChart
+              labels={result.histogram.map(b => `${b.from.toFixed(0)}%`)}
+              series={[{ name: 'Runs', values: result.histogram.map(b => b.count), color: 'bg-indigo-400' }]}
+              height={120}
+            />
+          </div>
+
+          <p className="text-xs text-slate-500">
+            Monthly cash flow P10 / P50 / P90: {formatCurrency(result.cashFlow.p10)} / {formatCurrency(result.cashFlow.p50)} / {formatCurrency(result.cashFlow.p90)}.
+            {' '}{result.irr
+              ? `Pro forma IRR P10 / P50 / P90: ${formatPercent(result.irr.p10)} / ${formatPercent(result.irr.p50)} / ${formatPercent(result.irr.p90)}.`
+              : 'Pro forma IRR: N/A.'}
+            {result.irrUnresolved > 0 && ` ${result.irrUnresolved.toLocaleString()} runs with no solvable IRR are left out of it.`}
+            {' '}{result.iterations.toLocaleString()} runs, seed {result.seed}.
+          </p>
+        </div>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,156 @@
+import React, { useState } from 'react';
+import { Property, PropertyStatus } from '../types';
+import { formatCurrency, formatPercent } from '../utils/calculations';
+import { calculatePortfolio, PROPERTY_STATUS_LABELS } from '../utils/portfolio';
+import { BarChart } from './BarChart';
+import { PieChart, MapPin } from 'lucide-react';
+
+interface PortfolioDashboardProps {
+  properties: Property[];
+  onSelect: (id: string) => void;
+  onUpdate: (p: Property) => void;
+}
+
+type Scope = PropertyStatus | 'all';
+
+const SCOPES: { key: Scope; label: string }[] = [
+  { key: 'owned', label: 'Owned' },
+  { key: 'prospect', label: 'Prospects' },
+  { key: 'all', label: 'All' },
+];
+
+export const PortfolioDashboard: React.FC<PortfolioDashboardProps> = ({ properties, onSelect, onUpdate }) => {
+  const [scope, setScope] = useState<Scope>(properties.some(p => p.status === 'owned') ? 'owned' : 'all');
+
+  const inScope = properties.filter(p => scope === 'all' || (p.status || 'prospect') === scope);
+  const portfolio = calculatePortfolio(inScope);
+  const shortAddress = (address: string) => address.split(',')[0];
+
+  const toggleStatus = (p: Property) => {
+    onUpdate({ ...p, status: p.status === 'owned' ? 'prospect' : 'owned' });
+  };
+
+  return (
+    <div className="h-full overflow-y-auto bg-white">
+      <div className="p-6 space-y-8 pb-20">
+        <div className="flex flex-wrap justify-between items-center gap-2">
+          <h2 className="text-2xl font-bold text-slate-800 flex items-center gap-2">
+            <PieChart className="text-indigo-600" /> Portfolio Overview
+          </h2>
+          <div className="flex rounded-lg overflow-hidden border border-slate-200 text-sm">
+            {SCOPES.map(s => (
+              <button
+                key={s.key}
+                onClick={() => setScope(s.key)}
+                className={`px-3 py-1.5 font-medium ${scope === s.key ? 'bg-indigo-600 text-white' : 'bg-white text-slate-600 hover:bg-slate-50'}`}
+              >
+                {s.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {inScope.length === 0 ? (
+          <p className="text-sm text-slate-400 italic">
+            No {scope === 'owned' ? 'owned properties' : 'prospects'} yet. Mark a property as owned from its detail page or the table below.
+          </p>
+        ) : (
+          <>
+            {/* Aggregate Metrics */}
+            <section className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {[
+                { label: "Total Equity", value: formatCurrency(portfolio.totalEquity), color: "text-emerald-600" },
+                { label: "Monthly Cash Flow", value: formatCurrency(portfolio.monthlyCashFlow), color: portfolio.monthlyCashFlow >= 0 ? "text-emerald-600" : "text-red-600" },
+                { label: "Blended CoC", value: formatPercent(portfolio.blendedCashOnCash), color: "text-blue-600" },
+                { label: "Blended Cap Rate", value: formatPercent(portfolio.blendedCapRate), color: "text-purple-600" },
+                { label: "Total Value", value: formatCurrency(portfolio.totalValue), color: "text-slate-600" },
+                { label: "Total Debt", value: formatCurrency(portfolio.totalDebt), color: "text-slate-600" },
+                { label: "Loan to Value", value: formatPercent(portfolio.loanToValue), color: "text-slate-600" },
+                { label: "Cash Invested", value: formatCurrency(portfolio.totalCashInvested), color: "text-slate-600" },
+              ].map((m, i) => (
+                <div key={i} className="bg-slate-50 p-3 rounded-lg border border-slate-100">
+                  <p className="text-xs text-slate-500 uppercase font-bold">{m.label}</p>
+                  <p className={`text-xl font-mono font-bold ${m.color}`}>{m.value}</p>
+                </div>
+              ))}
+            </section>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              {/* Cash Flow Contribution */}
+              <section className="bg-white rounded-lg border border-slate-200 p-4 space-y-2">
+                <p className="text-xs font-bold text-slate-500 uppercase">Monthly Cash Flow by Property</p>
+                <BarChart
+                  labels={portfolio.holdings.map(h => shortAddress(h.address))}
+                  series={[{ name: 'Cash Flow', values: portfolio.holdings.map(h => h.monthlyCashFlow), color: 'bg-emerald-400', negativeColor: 'bg-red-400' }]}
+                  height={160}
+                  format={formatCurrency}
+                />
+              </section>
+
+              {/* Market Concentration */}
+              <section className="bg-white rounded-lg border border-slate-200 p-4 space-y-3">
+                <p className="text-xs font-bold text-slate-500 uppercase">Capital by Market</p>
+                {portfolio.cities.map(c => (
+                  <div key={c.city} className="space-y-1 text-xs">
+                    <div className="flex justify-between text-slate-600">
+                      <span className="flex items-center gap-1"><MapPin size={12} /> {c.city} <span className="text-slate-400">({c.count})</span></span>
+                      <span className="font-mono">{formatCurrency(c.cashInvested)} · {c.share.toFixed(0)}%</span>
+                    </div>
+                    <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+                      <div className={`h-full ${c.share > 50 ? 'bg-amber-400' : 'bg-indigo-400'}`} style={{ width: `${c.share}%` }}></div>
+                    </div>
+                  </div>
+                ))}
+                {portfolio.cities.length > 0 && portfolio.cities[0].share > 50 && (
+                  <p className="text-[10px] text-amber-700">Over half of the invested capital sits in {portfolio.cities[0].city}.</p>
+                )}
+              </section>
+            </div>
+
+            {/* Holdings */}
+            <section className="overflow-x-auto border border-slate-200 rounded-lg">
+              <table className="w-full text-xs">
+                <thead className="bg-slate-50 text-slate-500 uppercase">
+                  <tr>
+                    <th className="px-3 py-2 text-left font-bold">Property</th>
+                    <th className="px-3 py-2 text-left font-bold">Status</th>
+                    <th className="px-3 py-2 text-right font-bold">Value</th>
+                    <th className="px-3 py-2 text-right font-bold">Debt</th>
+                    <th className="px-3 py-2 text-right font-bold">Equity</th>
+                    <th className="px-3 py-2 text-right font-bold">Cash Flow</th>
+                    <th className="px-3 py-2 text-right font-bold">Share of CF</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {portfolio.holdings.map((h, i) => (
+                    <tr key={h.id} className="hover:bg-slate-50">
+                      <td className="px-3 py-2">
+                        <button onClick={() => onSelect(h.id)} className="text-indigo-600 hover:underline text-left">{h.address}</button>
+                      </td>
+                      <td className="px-3 py-2">
+                        <button
+                          onClick={() => toggleStatus(inScope[i])}
+                          className={`px-2 py-0.5 rounded-full font-medium ${h.status === 'owned' ? 'bg-emerald-50 text-emerald-700' : 'bg-slate-100 text-slate-600'}`}
+                          title="Toggle owned / prospect"
+                        >
+                          {PROPERTY_STATUS_LABELS[h.status]}
+                        </button>
+                      </td>
+                      <td className="px-3 py-2 text-right font-mono">{formatCurrency(h.value)}</td>
+                      <td className="px-3 py-2 text-right font-mono">{formatCurrency(h.debt)}</td>
+                      <td className="px-3 py-2 text-right font-mono">{formatCurrency(h.equity)}</td>
+                      <td className={`px-3 py-2 text-right font-mono ${h.monthlyCashFlow < 0 ? 'text-red-600' : 'text-slate-800'}`}>{formatCurrency(h.monthlyCashFlow)}</td>
+                      <td className="px-3 py-2 text-right font-mono text-slate-500">
+                        {portfolio.monthlyCashFlow !== 0 ? formatPercent((h.monthlyCashFlow / Math.abs(portfolio.monthlyCashFlow)) * 100) : '—'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </section>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,99 @@
+import React from 'react';
+import { Property, ProjectionAssumptions } from '../types';
+import { formatCurrency, formatPercent } from '../utils/calculations';
+import { buildProjection, DEFAULT_PROJECTION } from '../utils/projections';
+import { SliderInput } from './FormInputs';
+import { BarChart } from './BarChart';
+import { LineChart } from 'lucide-react';
+
+interface ProFormaProjectionProps {
+  property: Property;
+  onUpdate: (p: Property) => void;
+}
+
+export const ProFormaProjection: React.FC<ProFormaProjectionProps> = ({ property, onUpdate }) => {
+  const assumptions = property.projection || DEFAULT_PROJECTION;
+  const projection = buildProjection(property, assumptions);
+  const hasPrepayments = projection.years.some(y => y.extraPrincipal > 0);
+
+  const updateAssumption = (field: keyof ProjectionAssumptions, value: number) => {
+    onUpdate({ ...property, projection: { ...assumptions, [field]: value } });
+  };
+
+  const pct = (v: number) => `${v}%`;
+
+  return (
+    <section className="space-y-6">
+      <h3 className="font-semibold text-slate-700 flex items-center gap-2">
+        <LineChart size={18} /> Pro Forma Projection
+      </h3>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-x-8 gap-y-4">
+        <SliderInput label="Hold Period (Yrs)" value={assumptions.holdYears} onChange={(v) => updateAssumption('holdYears', v)} min={1} max={30} step={1} format={(v) => `${v} yrs`} />
+        <SliderInput label="Appreciation (%/yr)" value={assumptions.appreciationRate} onChange={(v) => updateAssumption('appreciationRate', v)} min={-5} max={10} step={0.5} format={pct} />
+        <SliderInput label="Rent Growth (%/yr)" value={assumptions.rentGrowthRate} onChange={(v) => updateAssumption('rentGrowthRate', v)} min={-5} max={10} step={0.5} format={pct} />
+        <SliderInput label="Expense Inflation (%/yr)" value={assumptions.expenseInflationRate} onChange={(v) => updateAssumption('expenseInflationRate', v)} min={0} max={10} step={0.5} format={pct} />
+        <SliderInput label="Discount Rate (%)" value={assumptions.discountRate} onChange={(v) => updateAssumption('discountRate', v)} min={0} max={20} step={0.5} format={pct} />
+        <SliderInput label="Selling Costs (%)" value={assumptions.sellingCostPercent} onChange={(v) => updateAssumption('sellingCostPercent', v)} min={0} max={12} step={0.5} format={pct} />
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {[
+          { label: "IRR", value: projection.irr === null ? 'N/A' : formatPercent(projection.irr), color: "text-blue-600" },
+          { label: "NPV", value: formatCurrency(projection.npv), color: projection.npv >= 0 ? "text-emerald-600" : "text-red-600" },
+          { label: "Equity Multiple", value: `${projection.equityMultiple.toFixed(2)}x`, color: "text-purple-600" },
+          { label: "Total Profit", value: formatCurrency(projection.totalProfit), color: projection.totalProfit >= 0 ? "text-emerald-600" : "text-red-600" },
+        ].map((m, i) => (
+          <div key={i} className="bg-slate-50 p-3 rounded-lg border border-slate-100">
+            <p className="text-xs text-slate-500 uppercase font-bold">{m.label}</p>
+            <p className={`text-xl font-mono font-bold ${m.color}`}>{m.value}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="bg-white rounded-lg border border-slate-200 p-4">
+        <BarChart
+          labels={projection.years.map(y => `Y${y.year}`)}
+          series={[
+            { name: 'Annual Cash Flow', values: projection.years.map(y => y.cashFlow), color: 'bg-emerald-500' },
+            { name: 'Equity', values: projection.years.map(y => y.equity), color: 'bg-indigo-400' },
+          ]}
+          format={formatCurrency}
+        />
+      </div>
+
+      <div className="overflow-x-auto border border-slate-200 rounded-lg">
+        <table className="w-full text-xs text-right">
+          <thead className="bg-slate-50 text-slate-500 uppercase">
+            <tr>
+              {['Year', 'Gross Income', 'OpEx', 'NOI', 'Debt Service', 'Cash Flow', ...(hasPrepayments ? ['Extra Principal'] : []), 'Value', 'Loan Bal.', 'Equity', 'Total Return'].map(h => (
+                <th key={h} className="px-3 py-2 font-bold whitespace-nowrap">{h}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100 font-mono text-slate-700">
+            {projection.years.map(y => (
+              <tr key={y.year}>
+                <td className="px-3 py-1.5">{y.year}</td>
+                <td className="px-3 py-1.5">{formatCurrency(y.grossIncome)}</td>
+                <td className="px-3 py-1.5">{formatCurrency(y.operatingExpenses)}</td>
+                <td className="px-3 py-1.5">{formatCurrency(y.noi)}</td>
+                <td className="px-3 py-1.5">{formatCurrency(y.debtService)}</td>
+                <td className={`px-3 py-1.5 ${y.cashFlow >= 0 ? 'text-emerald-600' : 'text-red-600'}`}>{formatCurrency(y.cashFlow)}</td>
+                {hasPrepayments && <td className="px-3 py-1.5">{formatCurrency(y.extraPrincipal)}</td>}
+                <td className="px-3 py-1.5">{formatCurrency(y.propertyValue)}</td>
+                <td className="px-3 py-1.5">{formatCurrency(y.loanBalance)}</td>
+                <td className="px-3 py-1.5">{formatCurrency(y.equity)}</td>
+                <td className={`px-3 py-1.5 ${y.totalReturn >= 0 ? 'text-emerald-600' : 'text-red-600'}`}>{formatCurrency(y.totalReturn)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p className="text-[10px] text-slate-400">
+        IRR and NPV assume a sale at the end of year {assumptions.holdYears} for {formatCurrency(projection.netSaleProceeds)} net of selling costs and loan payoff.
+        {hasPrepayments && ' Extra principal is left out of debt service and cash flow; IRR counts it as cash put in that comes back through the smaller payoff.'}
+      </p>
+    </section>
+  );
+};
@@ -1,17 +1,23 @@
 import React, { useState } from 'react';
 import { Property } from '../types';
-import { calculateMetrics, formatCurrency, formatPercent } from '../utils/calculations';
-import { TrendingUp, Home, DollarSign, Image as ImageIcon, ImageOff, Heart } from 'lucide-react';
+import { calculateMetrics, buildUnderwritingChecklist, formatCurrency, formatPercent } from '../utils/calculations';
+import { applyActiveScenario, getActiveScenario } from '../utils/scenarios';
+import { TrendingUp, Home, DollarSign, Image as ImageIcon, ImageOff, Heart, CheckSquare, Square } from 'lucide-react';
 
 interface PropertyCardProps {
   property: Property;
   onClick: () => void;
   onToggleFavorite: (e: React.MouseEvent) => void;
   isSelected: boolean;
+  compareSelected?: boolean; // set while choosing properties to compare
+  rank?: number; // position under the active sidebar sort
 }
 
-export const PropertyCard: React.FC<PropertyCardProps> = ({ property, onClick, onToggleFavorite, isSelected }) => {
-  const metrics = calculateMetrics(property);
+export const PropertyCard: React.FC<PropertyCardProps> = ({ property, onClick, onToggleFavorite, isSelected, compareSelected, rank }) => {
+  const scenario = getActiveScenario(property);
+  const numbers = applyActiveScenario(property);
+  const metrics = calculateMetrics(numbers);
+  const underwriting = buildUnderwritingChecklist(numbers, metrics);
   const [imgError, setImgError] = useState(false);
   
   const hasImage = property.images && property.images.length > 0 && !imgError;
@@ -19,7 +25,7 @@ export const PropertyCard: React.FC<PropertyCardProps> = ({ property, onClick, o
   return (
     <div 
       onClick={onClick}
-      className={`relative overflow-hidden rounded-xl border transition-all cursor-pointer hover:shadow-md group ${isSelected ? 'border-indigo-500 ring-1 ring-indigo-500 shadow-lg bg-indigo-50/30' : 'border-slate-200 bg-white'}`}
+      className={`relative overflow-hidden rounded-xl border transition-all cursor-pointer hover:shadow-md group ${isSelected || compareSelected ? 'border-indigo-500 ring-1 ring-indigo-500 shadow-lg bg-indigo-50/30' : 'border-slate-200 bg-white'}`}
     >
       <div className="relative h-40 w-full bg-slate-100 flex items-center justify-center overflow-hidden">
         {hasImage ? (
@@ -47,8 +53,15 @@ export const PropertyCard: React.FC<PropertyCardProps> = ({ property, onClick, o
              />
         </button>
         
+        {/* Compare Checkbox - replaces the image count while comparing */}
+        {compareSelected !== undefined && (
+           <div className={`absolute top-2 left-2 z-10 p-1.5 rounded-md backdrop-blur-sm ${compareSelected ? 'bg-indigo-600 text-white' : 'bg-black/30 text-white'}`}>
+              {compareSelected ? <CheckSquare size={16} /> : <Square size={16} />}
+           </div>
+        )}
+
         {/* Image Count Badge - Moved to left to avoid heart */}
-        {hasImage && property.images.length > 1 && (
+        {compareSelected === undefined && hasImage && property.images.length > 1 && (
            <div className="absolute top-2 left-2 bg-black/50 backdrop-blur-md text-white text-[10px] px-2 py-1 rounded-full flex items-center gap-1">
               <ImageIcon size={10} /> {property.images.length}
            </div>
@@ -56,7 +69,10 @@ export const PropertyCard: React.FC<PropertyCardProps> = ({ property, onClick, o
 
         <div className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/70 to-transparent p-3">
             <h3 className="text-white font-semibold truncate">{property.address}</h3>
-            <p className="text-white/80 text-sm">{formatCurrency(property.price)}</p>
+            <p className="text-white/80 text-sm">
+                {rank !== undefined && <span className="font-bold text-white mr-2">#{rank}</span>}
+                {formatCurrency(numbers.price)}
+            </p>
         </div>
       </div>
       
@@ -81,9 +97,32 @@ export const PropertyCard: React.FC<PropertyCardProps> = ({ property, onClick, o
                  <TrendingUp size={14} /> Cap: {formatPercent(metrics.capRate)}
              </div>
              <div className="flex items-center gap-1">
-                 <Home size={14} /> Occ: {property.occupancyRate}%
+                 <Home size={14} /> Occ: {numbers.occupancyRate}%
              </div>
         </div>
+
+        {/* Underwriting Badges */}
+        <div className="flex flex-wrap gap-1">
+            {underwriting.map(c => (
+                <span
+                    key={c.label}
+                    title={`${c.label}: ${c.value} (${c.requirement})`}
+                    className={`text-[10px] font-bold px-1.5 py-0.5 rounded border ${c.passed ? 'bg-emerald-50 text-emerald-700 border-emerald-100' : 'bg-red-50 text-red-600 border-red-100'}`}
+                >
+                    {c.shortLabel}
+                </span>
+            ))}
+            {scenario && (
+                <span className="text-[10px] font-medium px-1.5 py-0.5 rounded bg-indigo-50 text-indigo-700 border border-indigo-100">
+                    {scenario.name}
+                </span>
+            )}
+            {property.tags?.map(tag => (
+                <span key={tag} className="text-[10px] font-medium px-1.5 py-0.5 rounded bg-slate-100 text-slate-600">
+                    #{tag}
+                </span>
+            ))}
+        </div>
       </div>
     </div>
   );
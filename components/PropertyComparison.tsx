@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import { Property } from '../types';
+import { buildComparison, comparisonToCsv, formatComparisonValue, getBestIndexes, rowDiffers } from '../utils/comparison';
+import { downloadFile } from '../utils/csv';
+import { Columns, Download, X } from 'lucide-react';
+
+interface PropertyComparisonProps {
+  properties: Property[];
+  onRemove: (id: string) => void;
+  onSelect: (id: string) => void;
+}
+
+export const PropertyComparison: React.FC<PropertyComparisonProps> = ({ properties, onRemove, onSelect }) => {
+  const [differencesOnly, setDifferencesOnly] = useState(false);
+  const rows = buildComparison(properties);
+  const visibleRows = differencesOnly ? rows.filter(rowDiffers) : rows;
+
+  const handleExport = () => {
+    downloadFile(`comparison-${new Date().toISOString().slice(0, 10)}.csv`, comparisonToCsv(properties, rows), 'text/csv;charset=utf-8');
+  };
+
+  return (
+    <div className="h-full overflow-y-auto bg-white">
+      <div className="p-6 space-y-6 pb-20">
+        <div className="flex flex-wrap justify-between items-center gap-2">
+          <h2 className="text-2xl font-bold text-slate-800 flex items-center gap-2">
+            <Columns className="text-indigo-600" /> Compare Properties
+          </h2>
+          <div className="flex gap-2 items-center text-sm">
+            <label className="flex items-center gap-1 text-slate-600 cursor-pointer">
+              <input type="checkbox" checked={differencesOnly} onChange={(e) => setDifferencesOnly(e.target.checked)} className="accent-indigo-600" />
+              Differences only
+            </label>
+            <button
+              onClick={handleExport}
+              disabled={properties.length < 2}
+              className="bg-slate-800 text-white px-3 py-1.5 rounded hover:bg-slate-700 disabled:opacity-50 flex items-center gap-1 font-medium"
+            >
+              <Download size={14} /> Export CSV
+            </button>
+          </div>
+        </div>
+
+        {properties.length < 2 ? (
+          <p className="text-sm text-slate-400 italic">
+            Select 2 to 4 properties in the sidebar to compare them side by side.
+          </p>
+        ) : (
+          <div className="overflow-x-auto border border-slate-200 rounded-lg">
+            <table className="w-full text-xs">
+              <thead className="bg-slate-50 text-slate-600">
+                <tr>
+                  <th className="px-3 py-2 text-left font-bold sticky left-0 bg-slate-50 w-44">Metric</th>
+                  {properties.map(p => (
+                    <th key={p.id} className="px-3 py-2 text-left font-bold min-w-[180px]">
+                      <div className="flex justify-between items-start gap-2">
+                        <button onClick={() => onSelect(p.id)} className="text-indigo-600 hover:underline text-left">{p.address}</button>
+                        <button onClick={() => onRemove(p.id)} className="text-slate-400 hover:text-red-600" title="Remove from comparison">
+                          <X size={14} />
+                        </button>
+                      </div>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {visibleRows.map((row, i) => {
+                  const best = getBestIndexes(row);
+                  const differs = rowDiffers(row);
+                  const isNewSection = i === 0 || visibleRows[i - 1].section !== row.section;
+                  return (
+                    <React.Fragment key={`${row.section}-${row.label}`}>
+                      {isNewSection && (
+                        <tr className="bg-slate-100">
+                          <td colSpan={properties.length + 1} className="px-3 py-1.5 font-bold text-slate-500 uppercase text-[10px] sticky left-0">{row.section}</td>
+                        </tr>
+                      )}
+                      <tr className="border-t border-slate-100">
+                        <td className={`px-3 py-1.5 sticky left-0 bg-white ${differs ? 'font-semibold text-slate-800' : 'text-slate-400'}`}>{row.label}</td>
+                        {row.values.map((v, col) => (
+                          <td
+                            key={properties[col].id}
+                            className={`px-3 py-1.5 align-top ${row.kind === 'text' ? 'text-slate-600 whitespace-pre-wrap' : 'font-mono'} ${best.includes(col) ? 'bg-emerald-50 text-emerald-700 font-bold' : ''} ${row.kind === 'pass' && v === false ? 'text-red-600' : ''}`}
+                          >
+                            {formatComparisonValue(row, v) || <span className="text-slate-300">—</span>}
+                          </td>
+                        ))}
+                      </tr>
+                    </React.Fragment>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,19 +1,53 @@
-import React, { useState, useRef } from 'react';
+import React, { useMemo, useState, useRef } from 'react';
 import { Property } from '../types';
-import { calculateMetrics, formatCurrency, formatPercent } from '../utils/calculations';
+import { calculateMetrics, calculateTaxImpact, solveMaxOffer, buildUnderwritingChecklist, formatCurrency, formatPercent } from '../utils/calculations';
+import { PROPERTY_STATUS_LABELS } from '../utils/portfolio';
+import { applyActiveScenario, recordScenarioEdit } from '../utils/scenarios';
+import { exportUnderwritingWorkbook } from '../utils/underwritingWorkbook';
+import { createShareLink } from '../utils/shareLink';
 import { searchMarketData, analyzeFairOffer, generatePropertyDescription } from '../services/geminiService';
 import { MediaStudio } from './MediaStudio';
-import { Calculator, Search, Info, DollarSign, Activity, ClipboardCheck, Loader2, RefreshCw, Camera, X, Wand2, ChevronLeft, ChevronRight, Bed, Bath, Square, ImageOff, Home, Sparkles } from 'lucide-react';
+import { SliderInput, ExpenseInput } from './FormInputs';
+import { ProFormaProjection } from './ProFormaProjection';
+import { DispositionPanel } from './DispositionPanel';
+import { AmortizationTable } from './AmortizationTable';
+import { SeasonalCalendar } from './SeasonalCalendar';
+import { StrRevenuePanel } from './StrRevenuePanel';
+import { StrategyComparison } from './StrategyComparison';
+import { TaxPanel } from './TaxPanel';
+import { AcquisitionCostsPanel } from './AcquisitionCostsPanel';
+import { FinancingPanel } from './FinancingPanel';
+import { SensitivityAnalysis } from './SensitivityAnalysis';
+import { MonteCarloPanel } from './MonteCarloPanel';
+import { MaxOfferCard } from './MaxOfferCard';
+import { BrrrrPanel } from './BrrrrPanel';
+import { RentRollEditor } from './RentRollEditor';
+import { UnderwritingChecklist } from './UnderwritingChecklist';
+import { TagEditor } from './TagEditor';
+import { ScenarioPanel } from './ScenarioPanel';
+import { Calculator, Search, Info, DollarSign, Activity, ClipboardCheck, Loader2, RefreshCw, Camera, X, Wand2, ChevronLeft, ChevronRight, Bed, Bath, Square, ImageOff, Home, Sparkles, Undo2, Redo2, FileSpreadsheet, FileText, Link2, Check } from 'lucide-react';
 
 interface PropertyDetailProps {
   property: Property;
   onUpdate: (p: Property) => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  onOpenMemo: () => void;
 }
 
-export const PropertyDetail: React.FC<PropertyDetailProps> = ({ property, onUpdate }) => {
-  const metrics = calculateMetrics(property);
+export const PropertyDetail: React.FC<PropertyDetailProps> = ({ property: baseProperty, onUpdate: onBaseUpdate, canUndo, canRedo, onUndo, onRedo, onOpenMemo }) => {
+  // Everything below shows the active scenario; its edits are recorded as that scenario's overrides
+  const property = useMemo(() => applyActiveScenario(baseProperty), [baseProperty]);
+  const onUpdate = (next: Property) => onBaseUpdate(recordScenarioEdit(baseProperty, next));
+  // Derived results only change with the property, so UI-only renders (gallery, spinners) skip the model
+  const metrics = useMemo(() => calculateMetrics(property), [property]);
+  const taxImpact = useMemo(() => calculateTaxImpact(property, metrics), [property, metrics]);
+  const maxOffer = useMemo(() => solveMaxOffer(property), [property]);
+  const underwriting = useMemo(() => buildUnderwritingChecklist(property, metrics), [property, metrics]);
   const [searchQuery, setSearchQuery] = useState('');
-  const [searchResult, setSearchResult] = useState<{ text: string; sources: { title: string; uri: string }[] } | null>(null);
+  const searchResult = property.marketResearch;
   const [isSearching, setIsSearching] = useState(false);
   const [isAnalyzingOffer, setIsAnalyzingOffer] = useState(false);
   const [isGeneratingDesc, setIsGeneratingDesc] = useState(false);
@@ -23,6 +57,7 @@ export const PropertyDetail: React.FC<PropertyDetailProps> = ({ property, onUpda
   const [currentImageIndex, setCurrentImageIndex] = useState(0);
   const [editModeImage, setEditModeImage] = useState<string | null>(null);
   const [imgError, setImgError] = useState<Record<number, boolean>>({});
+  const [isLinkCopied, setIsLinkCopied] = useState(false);
   
   const mediaSectionRef = useRef<HTMLDivElement>(null);
 
@@ -35,7 +70,10 @@ export const PropertyDetail: React.FC<PropertyDetailProps> = ({ property, onUpda
     setIsSearching(true);
     try {
       const result = await searchMarketData(searchQuery);
-      setSearchResult(result);
+      onUpdate({
+        ...property,
+        marketResearch: { query: searchQuery, text: result.text || '', sources: result.sources, fetchedAt: new Date().toISOString() },
+      });
     } catch (e) {
       console.error(e);
     } finally {
@@ -46,7 +84,7 @@ export const PropertyDetail: React.FC<PropertyDetailProps> = ({ property, onUpda
   const handleRefreshRecommendation = async () => {
     setIsAnalyzingOffer(true);
     try {
-      const rec = await analyzeFairOffer(property, metrics);
+      const rec = await analyzeFairOffer(property, metrics, maxOffer);
       onUpdate({ ...property, fairOfferRecommendation: rec });
     } catch(e) {
       console.error(e);
@@ -67,6 +105,25 @@ export const PropertyDetail: React.FC<PropertyDetailProps> = ({ property, onUpda
     }
   };
 
+  // Shares the base numbers and every scenario
+  const handleCopyShareLink = async () => {
+    let url = '';
+    try {
+      url = await createShareLink(baseProperty);
+      await navigator.clipboard.writeText(url);
+      setIsLinkCopied(true);
+      setTimeout(() => setIsLinkCopied(false), 2000);
+    } catch (e) {
+      // Clipboard access can be denied, so offer the link for a manual copy when it was built
+      if (url) {
+        window.prompt('Copy this link to share the deal:', url);
+      } else {
+        console.error(e);
+        alert('Failed to create a share link. Try again.');
+      }
+    }
+  };
+
   const handleEditImage = (imageUrl: string) => {
       setIsGalleryOpen(false);
       setEditModeImage(imageUrl);
@@ -144,6 +201,52 @@ export const PropertyDetail: React.FC<PropertyDetailProps> = ({ property, onUpda
              <span className={`px-3 py-1 rounded-full text-sm font-medium ${metrics.cashFlow > 0 ? 'bg-emerald-500/20 text-emerald-300 border border-emerald-500/50' : 'bg-red-500/20 text-red-300'}`}>
                 {metrics.cashFlow > 0 ? 'Positive Cash Flow' : 'Negative Cash Flow'}
              </span>
+             <button
+                onClick={(e) => { e.stopPropagation(); onUpdate({ ...property, status: property.status === 'owned' ? 'prospect' : 'owned' }); }}
+                className={`pointer-events-auto px-3 py-1 rounded-full text-sm font-medium border transition-colors ${property.status === 'owned' ? 'bg-indigo-500/30 text-indigo-100 border-indigo-400/60' : 'bg-white/10 text-white/80 border-white/30 hover:bg-white/20'}`}
+                title="Toggle owned / prospect"
+             >
+                {PROPERTY_STATUS_LABELS[property.status || 'prospect']}
+             </button>
+             <div className="pointer-events-auto ml-auto flex gap-1">
+                <button
+                   onClick={(e) => { e.stopPropagation(); handleCopyShareLink(); }}
+                   className="p-2 rounded-full bg-white/10 border border-white/30 hover:bg-white/20 transition-colors"
+                   title={isLinkCopied ? 'Link copied' : 'Copy share link'}
+                >
+                   {isLinkCopied ? <Check size={16} /> : <Link2 size={16} />}
+                </button>
+                <button
+                   onClick={(e) => { e.stopPropagation(); onOpenMemo(); }}
+                   className="p-2 rounded-full bg-white/10 border border-white/30 hover:bg-white/20 transition-colors"
+                   title="Investor memo (PDF)"
+                >
+                   <FileText size={16} />
+                </button>
+                <button
+                   onClick={(e) => { e.stopPropagation(); exportUnderwritingWorkbook(property); }}
+                   className="p-2 rounded-full bg-white/10 border border-white/30 hover:bg-white/20 transition-colors"
+                   title="Download underwriting model (.xlsx)"
+                >
+                   <FileSpreadsheet size={16} />
+                </button>
+                <button
+                   onClick={(e) => { e.stopPropagation(); onUndo(); }}
+                   disabled={!canUndo}
+                   className="p-2 rounded-full bg-white/10 border border-white/30 hover:bg-white/20 disabled:opacity-30 transition-colors"
+                   title="Undo (Ctrl+Z)"
+                >
+                   <Undo2 size={16} />
+                </button>
+                <button
+                   onClick={(e) => { e.stopPropagation(); onRedo(); }}
+                   disabled={!canRedo}
+                   className="p-2 rounded-full bg-white/10 border border-white/30 hover:bg-white/20 disabled:opacity-30 transition-colors"
+                   title="Redo (Ctrl+Shift+Z)"
+                >
+                   <Redo2 size={16} />
+                </button>
+             </div>
           </div>
         </div>
         
@@ -155,13 +258,23 @@ export const PropertyDetail: React.FC<PropertyDetailProps> = ({ property, onUpda
       </div>
 
       <div className="p-6 space-y-8 pb-20">
+        {/* Tags (used by the sidebar filters) */}
+        <TagEditor tags={property.tags || []} onChange={(tags) => onUpdate({ ...property, tags })} />
+
+        {/* Scenarios: named override sets on top of the base numbers */}
+        <ScenarioPanel property={baseProperty} onUpdate={onBaseUpdate} />
+
         {/* Metrics Overview */}
         <section className="grid grid-cols-2 md:grid-cols-4 gap-4">
             {[
                 { label: "Net Monthly", value: formatCurrency(metrics.cashFlow), color: metrics.cashFlow > 0 ? "text-emerald-600" : "text-red-600" },
                 { label: "Cash on Cash", value: formatPercent(metrics.cashOnCashReturn), color: "text-blue-600" },
+                { label: "After-Tax Return", value: formatPercent(taxImpact.afterTaxReturn), color: "text-blue-600" },
                 { label: "Cap Rate", value: formatPercent(metrics.capRate), color: "text-purple-600" },
                 { label: "Initial Invest", value: formatCurrency(metrics.totalInvestment), color: "text-slate-600" },
+                { label: "Taxable Income", value: formatCurrency(taxImpact.taxableIncome), color: "text-slate-600" },
+                { label: "Tax Savings", value: formatCurrency(taxImpact.taxSavings), color: taxImpact.taxSavings >= 0 ? "text-emerald-600" : "text-red-600" },
+                { label: "After-Tax CF (Yr)", value: formatCurrency(taxImpact.afterTaxCashFlow), color: taxImpact.afterTaxCashFlow > 0 ? "text-emerald-600" : "text-red-600" },
             ].map((m, i) => (
                 <div key={i} className="bg-slate-50 p-3 rounded-lg border border-slate-100">
                     <p className="text-xs text-slate-500 uppercase font-bold">{m.label}</p>
@@ -170,6 +283,9 @@ export const PropertyDetail: React.FC<PropertyDetailProps> = ({ property, onUpda
             ))}
         </section>
 
+        {/* Lender / Investment Committee Screens */}
+        <UnderwritingChecklist checks={underwriting} />
+
         {/* Property Highlights Section */}
         <section className="bg-white rounded-lg border border-slate-100 p-4 shadow-sm relative group">
              <div className="flex justify-between items-start mb-2">
@@ -219,18 +335,26 @@ export const PropertyDetail: React.FC<PropertyDetailProps> = ({ property, onUpda
                     onChange={(v) => updateField('price', v)} 
                     min={50000} max={2000000} step={5000} format={formatCurrency}
                 />
-                <SliderInput 
-                    label="Down Payment (%)" 
-                    value={property.downPaymentPercent} 
-                    onChange={(v) => updateField('downPaymentPercent', v)} 
-                    min={0} max={100} step={1} format={(v) => `${v}%`}
-                />
-                <SliderInput 
-                    label="Interest Rate (%)" 
-                    value={property.interestRate} 
-                    onChange={(v) => updateField('interestRate', v)} 
-                    min={0} max={15} step={0.1} format={(v) => `${v}%`}
-                />
+                {!property.financing && (
+                    <>
+                        <SliderInput 
+                            label="Down Payment (%)" 
+                            value={property.downPaymentPercent} 
+                            onChange={(v) => updateField('downPaymentPercent', v)} 
+                            min={0} max={100} step={1} format={(v) => `${v}%`}
+                        />
+                        <SliderInput 
+                            label="Interest Rate (%)" 
+                            value={property.interestRate} 
+                            onChange={(v) => updateField('interestRate', v)} 
+                            min={0} max={15} step={0.1} format={(v) => `${v}%`}
+                        />
+                    </>
+                )}
+
+                <FinancingPanel property={property} onUpdate={onUpdate} warnings={metrics.financingWarnings} />
+
+                <AmortizationTable property={property} onUpdate={onUpdate} />
              </section>
 
              {/* Rental Income */}
@@ -251,9 +375,36 @@ export const PropertyDetail: React.FC<PropertyDetailProps> = ({ property, onUpda
                     onChange={(v) => updateField('occupancyRate', v)} 
                     min={0} max={100} step={1} format={(v) => `${v}%`}
                 />
+                {property.units ? (
+                    <p className="text-xs text-amber-700 bg-amber-50 border border-amber-100 rounded p-2">
+                        Income is driven by the rent roll below; these sliders only seed new units.
+                    </p>
+                ) : property.seasonality && (
+                    <p className="text-xs text-amber-700 bg-amber-50 border border-amber-100 rounded p-2">
+                        Income is driven by the monthly calendar below; these sliders only seed new calendars.
+                    </p>
+                )}
              </section>
         </div>
 
+        {/* Duplex / Triplex / ADU Units */}
+        <RentRollEditor property={property} metrics={metrics} onUpdate={onUpdate} />
+
+        {/* Up-Front Costs */}
+        <AcquisitionCostsPanel property={property} onUpdate={onUpdate} />
+
+        {/* Buy, Rehab, Rent, Refinance */}
+        <BrrrrPanel property={property} onUpdate={onUpdate} />
+
+        {/* STR vs MTR vs LTR */}
+        <StrategyComparison property={property} onUpdate={onUpdate} />
+
+        {/* Seasonal Month-by-Month Model */}
+        <SeasonalCalendar property={property} onUpdate={onUpdate} />
+
+        {/* Per-Booking Fees & Lodging Tax */}
+        <StrRevenuePanel property={property} revenue={metrics.strRevenue} onUpdate={onUpdate} />
+
         {/* Detailed Operating Expenses */}
         <section className="space-y-6">
             <h3 className="font-semibold text-slate-700 flex items-center gap-2">
@@ -294,30 +445,47 @@ export const PropertyDetail: React.FC<PropertyDetailProps> = ({ property, onUpda
             </div>
         </section>
 
-        {/* AI Fair Offer Recommendation */}
-        <section className="bg-gradient-to-br from-slate-900 to-slate-800 rounded-xl p-6 text-white relative overflow-hidden">
-             <div className="relative z-10 space-y-4">
-                 <div className="flex justify-between items-start">
-                     <h3 className="font-bold text-lg flex items-center gap-2">
-                        <Activity className="text-indigo-400" /> Gemini Fair Offer Recommendation
-                     </h3>
-                     <button 
-                        onClick={handleRefreshRecommendation} 
-                        disabled={isAnalyzingOffer}
-                        className="bg-white/10 hover:bg-white/20 p-2 rounded-full transition-colors disabled:opacity-50"
-                     >
-                        {isAnalyzingOffer ? <Loader2 className="animate-spin" size={18}/> : <RefreshCw size={18} />}
-                     </button>
-                 </div>
+        {/* After-Tax View */}
+        <TaxPanel property={property} onUpdate={onUpdate} />
+
+        {/* Multi-Year Pro Forma */}
+        <ProFormaProjection property={property} onUpdate={onUpdate} />
+
+        {/* Exit: sale proceeds, tax and 1031 */}
+        <DispositionPanel property={property} onUpdate={onUpdate} />
+
+        {/* What-If Analysis */}
+        <SensitivityAnalysis property={property} />
+        <MonteCarloPanel property={property} />
+
+        {/* Offer: deterministic solver + AI Fair Offer Recommendation */}
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <MaxOfferCard property={property} solution={maxOffer} onUpdate={onUpdate} />
+
+            <section className="lg:col-span-2 bg-gradient-to-br from-slate-900 to-slate-800 rounded-xl p-6 text-white relative overflow-hidden">
+                 <div className="relative z-10 space-y-4">
+                     <div className="flex justify-between items-start">
+                         <h3 className="font-bold text-lg flex items-center gap-2">
+                            <Activity className="text-indigo-400" /> Gemini Fair Offer Recommendation
+                         </h3>
+                         <button 
+                            onClick={handleRefreshRecommendation} 
+                            disabled={isAnalyzingOffer}
+                            className="bg-white/10 hover:bg-white/20 p-2 rounded-full transition-colors disabled:opacity-50"
+                         >
+                            {isAnalyzingOffer ? <Loader2 className="animate-spin" size={18}/> : <RefreshCw size={18} />}
+                         </button>
+                     </div>
                  
-                 <div className="bg-white/5 rounded-lg p-4 border border-white/10 text-slate-200 text-sm leading-relaxed">
-                     {property.fairOfferRecommendation || "Click refresh to generate a fair offer analysis based on current numbers."}
+                     <div className="bg-white/5 rounded-lg p-4 border border-white/10 text-slate-200 text-sm leading-relaxed">
+                         {property.fairOfferRecommendation || "Click refresh to generate a fair offer analysis based on current numbers."}
+                     </div>
                  </div>
-             </div>
              
-             {/* Decorative background blur */}
-             <div className="absolute top-0 right-0 w-64 h-64 bg-indigo-600/20 rounded-full blur-3xl -translate-y-1/2 translate-x-1/3"></div>
-        </section>
+                 {/* Decorative background blur */}
+                 <div className="absolute top-0 right-0 w-64 h-64 bg-indigo-600/20 rounded-full blur-3xl -translate-y-1/2 translate-x-1/3"></div>
+            </section>
+        </div>
 
         {/* Media Studio Section - Only show if images exist */}
         {(editModeImage || (hasImages && !isCurrentImgError)) && (
@@ -444,49 +612,3 @@ export const PropertyDetail: React.FC<PropertyDetailProps> = ({ property, onUpda
     </div>
   );
 };
-
-// Helper Components
-const SliderInput: React.FC<{
-    label: string;
-    value: number;
-    onChange: (v: number) => void;
-    min: number;
-    max: number;
-    step: number;
-    format: (v: number) => string;
-}> = ({ label, value, onChange, min, max, step, format }) => (
-    <div className="space-y-2">
-        <div className="flex justify-between items-center text-sm">
-            <span className="text-slate-600">{label}</span>
-            <span className="font-semibold text-slate-900 bg-slate-100 px-2 py-0.5 rounded">{format(value)}</span>
-        </div>
-        <input 
-            type="range" 
-            min={min} max={max} step={step} 
-            value={value} 
-            onChange={(e) => onChange(parseFloat(e.target.value))}
-            className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
-        />
-    </div>
-);
-
-const ExpenseInput: React.FC<{
-    label: string;
-    value: number;
-    onChange: (v: number) => void;
-    suffix?: string;
-}> = ({ label, value, onChange, suffix }) => (
-    <div className="space-y-1">
-        <label className="text-xs font-medium text-slate-500 uppercase">{label}</label>
-        <div className="relative">
-             <span className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400 text-sm">{suffix ? '' : '$'}</span>
-             <input 
-                type="number" 
-                value={value} 
-                onChange={(e) => onChange(parseFloat(e.target.value) || 0)}
-                className="w-full border border-slate-200 rounded p-2 pl-6 text-sm font-semibold text-slate-800 focus:ring-2 focus:ring-indigo-500 outline-none"
-             />
-             {suffix && <span className="absolute right-3 top-1/2 -translate-y-1/2 text-slate-400 text-sm">{suffix}</span>}
-        </div>
-    </div>
-);
\ No newline at end of file
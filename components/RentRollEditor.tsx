@@ -0,0 +1,150 @@
+import React from 'react';
+import { Property, RentalUnit, UnitStrategy, CalculationResult } from '../types';
+import { buildEmptyUnit, buildUnitFromProperty, calculateRentRoll, formatCurrency, formatPercent, UNIT_STRATEGY_LABELS } from '../utils/calculations';
+import { Building2, Plus, Trash2 } from 'lucide-react';
+
+interface RentRollEditorProps {
+  property: Property;
+  metrics: CalculationResult;
+  onUpdate: (p: Property) => void;
+}
+
+const NUMBER_COLUMNS: { field: keyof RentalUnit; label: string }[] = [
+  { field: 'bedrooms', label: 'Beds' },
+  { field: 'bathrooms', label: 'Baths' },
+  { field: 'rate', label: 'Rate' },
+  { field: 'occupancyRate', label: 'Occ %' },
+  { field: 'managementFeePercent', label: 'Mgmt %' },
+  { field: 'monthlyExpenses', label: 'Unit Exp.' },
+];
+
+export const RentRollEditor: React.FC<RentRollEditorProps> = ({ property, metrics, onUpdate }) => {
+  const units = property.units;
+  const results = calculateRentRoll(property);
+
+  const updateUnit = (id: string, changes: Partial<RentalUnit>) => {
+    if (!units) return;
+    onUpdate({ ...property, units: units.map(u => (u.id === id ? { ...u, ...changes } : u)) });
+  };
+
+  // The first split keeps the current listing as Unit A
+  const addUnit = () => {
+    const next = units || [buildUnitFromProperty(property, 0)];
+    onUpdate({ ...property, units: [...next, buildEmptyUnit(next.length)] });
+  };
+
+  // Removing the last unit goes back to the single-listing inputs
+  const removeUnit = (id: string) => {
+    const next = (units || []).filter(u => u.id !== id);
+    onUpdate({ ...property, units: next.length ? next : undefined });
+  };
+
+  const hasOwnerUnit = units?.some(u => u.strategy === 'owner');
+  const totalCost = metrics.monthlyExpenses + metrics.monthlyMortgage;
+
+  return (
+    <section className="space-y-4">
+      <div className="flex justify-between items-center">
+        <h3 className="font-semibold text-slate-700 flex items-center gap-2">
+          <Building2 size={18} /> Rent Roll
+        </h3>
+        <button
+          onClick={addUnit}
+          className="text-xs text-indigo-600 hover:text-indigo-800 bg-indigo-50 hover:bg-indigo-100 px-2 py-1 rounded transition-colors flex items-center gap-1"
+        >
+          <Plus size={12} /> {units ? 'Add Unit' : 'Split Into Units'}
+        </button>
+      </div>
+
+      {units ? (
+        <div className="overflow-x-auto border border-slate-200 rounded-lg">
+          <table className="w-full text-xs">
+            <thead className="bg-slate-50 text-slate-500 uppercase">
+              <tr>
+                <th className="px-2 py-2 text-left font-bold">Unit</th>
+                <th className="px-2 py-2 text-left font-bold">Use</th>
+                {NUMBER_COLUMNS.map(c => (
+                  <th key={c.field} className="px-2 py-2 text-right font-bold whitespace-nowrap">{c.label}</th>
+                ))}
+                <th className="px-2 py-2 text-right font-bold">Income</th>
+                <th className="px-2 py-2 text-right font-bold">NOI</th>
+                <th className="px-2 py-2"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {units.map((u, i) => (
+                <tr key={u.id}>
+                  <td className="px-1 py-1">
+                    <input
+                      value={u.label}
+                      onChange={(e) => updateUnit(u.id, { label: e.target.value })}
+                      className="w-24 border border-slate-200 rounded px-2 py-1 text-slate-800 focus:ring-2 focus:ring-indigo-500 outline-none"
+                    />
+                  </td>
+                  <td className="px-1 py-1">
+                    <select
+                      value={u.strategy}
+                      onChange={(e) => updateUnit(u.id, { strategy: e.target.value as UnitStrategy })}
+                      className="border border-slate-200 rounded px-1 py-1 text-slate-700"
+                    >
+                      {(Object.keys(UNIT_STRATEGY_LABELS) as UnitStrategy[]).map(s => (
+                        <option key={s} value={s}>{UNIT_STRATEGY_LABELS[s]}</option>
+                      ))}
+                    </select>
+                  </td>
+                  {NUMBER_COLUMNS.map(c => (
+                    <td key={c.field} className="px-1 py-1">
+                      <input
+                        type="number"
+                        value={u[c.field] as number}
+                        min={0}
+                        disabled={u.strategy === 'owner' && c.field !== 'bedrooms' && c.field !== 'bathrooms' && c.field !== 'monthlyExpenses'}
+                        title={c.field === 'rate' ? (u.strategy === 'ltr' ? 'Monthly rent' : 'Nightly rate') : undefined}
+                        onChange={(e) => updateUnit(u.id, { [c.field]: parseFloat(e.target.value) || 0 })}
+                        className="w-20 border border-slate-200 rounded px-2 py-1 text-right font-mono text-slate-800 focus:ring-2 focus:ring-indigo-500 outline-none disabled:bg-slate-50 disabled:text-slate-300"
+                      />
+                    </td>
+                  ))}
+                  <td className="px-2 py-1 text-right font-mono text-slate-700">{formatCurrency(results[i].monthlyIncome)}</td>
+                  <td className={`px-2 py-1 text-right font-mono ${results[i].noi < 0 ? 'text-red-600' : 'text-slate-700'}`}>{formatCurrency(results[i].noi)}</td>
+                  <td className="px-1 py-1">
+                    <button onClick={() => removeUnit(u.id)} className="text-slate-400 hover:text-red-600 p-1">
+                      <Trash2 size={14} />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <p className="text-xs text-slate-400 italic">
+          Treated as a single unit. Split into units to model a duplex, triplex or main house plus ADU with its own rate and strategy per unit.
+        </p>
+      )}
+
+      {units && (
+        <p className="text-[10px] text-slate-400">
+          Rate is the nightly rate for short-term units and the monthly rent for long-term units. Taxes, insurance and the other expenses below are shared across the property.
+        </p>
+      )}
+
+      {hasOwnerUnit && (
+        <div className="bg-indigo-50 border border-indigo-100 rounded-lg p-4 grid grid-cols-1 md:grid-cols-3 gap-3 text-xs">
+          <div>
+            <p className="text-indigo-500 uppercase font-bold">Rental Income</p>
+            <p className="font-mono font-semibold text-indigo-900 text-lg">{formatCurrency(metrics.monthlyIncome)}</p>
+          </div>
+          <div>
+            <p className="text-indigo-500 uppercase font-bold">Costs Covered</p>
+            <p className="font-mono font-semibold text-indigo-900 text-lg">{formatPercent(totalCost > 0 ? (metrics.monthlyIncome / totalCost) * 100 : 0)}</p>
+          </div>
+          <div>
+            <p className="text-indigo-500 uppercase font-bold">{metrics.cashFlow < 0 ? 'Your Housing Cost' : 'You Live Free, Plus'}</p>
+            <p className="font-mono font-semibold text-indigo-900 text-lg">{formatCurrency(Math.abs(metrics.cashFlow))}/mo</p>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+};
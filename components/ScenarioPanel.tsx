@@ -0,0 +1,147 @@
+import React, { useState } from 'react';
+import { Property, PropertyScenario } from '../types';
+import { formatComparisonValue, rowDiffers } from '../utils/comparison';
+import {
+  buildScenarioDiff,
+  buildScenarioPreset,
+  cloneScenario,
+  createScenario,
+  getActiveScenario,
+  ScenarioPreset,
+  SCENARIO_PRESET_LABELS,
+} from '../utils/scenarios';
+import { Layers, Copy, Plus, Trash2, GitCompare } from 'lucide-react';
+
+interface ScenarioPanelProps {
+  property: Property; // base property, scenarios unapplied
+  onUpdate: (p: Property) => void;
+}
+
+export const ScenarioPanel: React.FC<ScenarioPanelProps> = ({ property, onUpdate }) => {
+  const [showDiff, setShowDiff] = useState(false);
+  const scenarios = property.scenarios || [];
+  const active = getActiveScenario(property);
+
+  const addScenario = (scenario: PropertyScenario) => {
+    onUpdate({ ...property, scenarios: [...scenarios, scenario], activeScenarioId: scenario.id });
+  };
+
+  const handleAddPreset = (preset: ScenarioPreset) => {
+    addScenario(createScenario(SCENARIO_PRESET_LABELS[preset], buildScenarioPreset(property, preset)));
+  };
+
+  const handleRename = (name: string) => {
+    if (!active) return;
+    onUpdate({ ...property, scenarios: scenarios.map(s => s.id === active.id ? { ...s, name } : s) });
+  };
+
+  const handleDelete = () => {
+    if (!active) return;
+    onUpdate({ ...property, scenarios: scenarios.filter(s => s.id !== active.id), activeScenarioId: undefined });
+  };
+
+  const diff = showDiff ? buildScenarioDiff(property) : null;
+  const diffRows = diff ? diff.rows.filter(rowDiffers) : [];
+
+  return (
+    <section className="space-y-4">
+      <div className="flex flex-wrap justify-between items-center gap-2">
+        <h3 className="font-semibold text-slate-700 flex items-center gap-2">
+          <Layers size={18} /> Scenarios
+        </h3>
+        <div className="flex gap-2 items-center text-xs">
+          {(Object.keys(SCENARIO_PRESET_LABELS) as ScenarioPreset[]).map(preset => (
+            <button
+              key={preset}
+              onClick={() => handleAddPreset(preset)}
+              className="text-indigo-600 hover:text-indigo-800 bg-indigo-50 hover:bg-indigo-100 px-2 py-1 rounded transition-colors flex items-center gap-1"
+            >
+              <Plus size={12} /> {SCENARIO_PRESET_LABELS[preset]}
+            </button>
+          ))}
+          <button
+            onClick={() => setShowDiff(!showDiff)}
+            disabled={scenarios.length === 0}
+            className={`px-2 py-1 rounded flex items-center gap-1 disabled:opacity-50 ${showDiff ? 'bg-slate-800 text-white' : 'bg-slate-100 text-slate-700 hover:bg-slate-200'}`}
+          >
+            <GitCompare size={12} /> Diff
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2 text-sm">
+        {[{ id: undefined, name: 'Base' }, ...scenarios].map(s => (
+          <button
+            key={s.id || 'base'}
+            onClick={() => onUpdate({ ...property, activeScenarioId: s.id })}
+            className={`px-3 py-1.5 rounded-lg border font-medium transition-colors ${property.activeScenarioId === s.id ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-slate-600 border-slate-200 hover:bg-slate-50'}`}
+          >
+            {s.name}
+          </button>
+        ))}
+      </div>
+
+      {active ? (
+        <div className="flex flex-wrap gap-2 items-center text-xs">
+          <input
+            value={active.name}
+            onChange={(e) => handleRename(e.target.value)}
+            className="border border-slate-200 rounded px-2 py-1 text-slate-800 font-medium focus:ring-2 focus:ring-indigo-500 outline-none"
+          />
+          <button onClick={() => addScenario(cloneScenario(active))} className="text-slate-600 hover:text-indigo-600 flex items-center gap-1 px-2 py-1">
+            <Copy size={12} /> Clone
+          </button>
+          <button onClick={handleDelete} className="text-slate-400 hover:text-red-600 flex items-center gap-1 px-2 py-1">
+            <Trash2 size={12} /> Delete
+          </button>
+          <span className="text-slate-400">
+            {Object.keys(active.overrides).length} input{Object.keys(active.overrides).length === 1 ? '' : 's'} differ from base. Edits below apply to this scenario only.
+          </span>
+        </div>
+      ) : (
+        <p className="text-xs text-slate-400 italic">
+          {scenarios.length > 0
+            ? 'Editing base numbers. Scenarios keep only the inputs they override, so base edits flow through to them.'
+            : 'Add a scenario to stress-test the numbers without losing the originals.'}
+        </p>
+      )}
+
+      {diff && (
+        <div className="overflow-x-auto border border-slate-200 rounded-lg">
+          <table className="w-full text-xs">
+            <thead className="bg-slate-50 text-slate-600">
+              <tr>
+                <th className="px-3 py-2 text-left font-bold w-44">Input / Metric</th>
+                {diff.columns.map((name, col) => (
+                  <th key={col} className="px-3 py-2 text-left font-bold">{name}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {diffRows.map((row, i) => (
+                <React.Fragment key={`${row.section}-${row.label}`}>
+                  {(i === 0 || diffRows[i - 1].section !== row.section) && (
+                    <tr className="bg-slate-100">
+                      <td colSpan={diff.columns.length + 1} className="px-3 py-1.5 font-bold text-slate-500 uppercase text-[10px]">{row.section}</td>
+                    </tr>
+                  )}
+                  <tr className="border-t border-slate-100">
+                    <td className="px-3 py-1.5 text-slate-700">{row.label}</td>
+                    {row.values.map((v, col) => (
+                      <td key={col} className={`px-3 py-1.5 ${row.kind === 'text' ? 'text-slate-600' : 'font-mono'} ${col > 0 && v !== row.values[0] ? 'text-indigo-700 font-semibold' : ''}`}>
+                        {formatComparisonValue(row, v) || <span className="text-slate-300">—</span>}
+                      </td>
+                    ))}
+                  </tr>
+                </React.Fragment>
+              ))}
+            </tbody>
+          </table>
+          {diffRows.length === 0 && (
+            <p className="p-3 text-xs text-slate-400 italic">All scenarios currently match the base numbers.</p>
+          )}
+        </div>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,104 @@
+import React from 'react';
+import { Property, SeasonalMonth } from '../types';
+import { formatCurrency, MONTH_LABELS, buildFlatSeasonality, calculateMonthlyCashFlows } from '../utils/calculations';
+import { BarChart } from './BarChart';
+import { CalendarDays } from 'lucide-react';
+
+interface SeasonalCalendarProps {
+  property: Property;
+  onUpdate: (p: Property) => void;
+}
+
+const COLUMNS: { field: keyof SeasonalMonth; label: string; suffix: string }[] = [
+  { field: 'weekdayRate', label: 'Weekday ADR', suffix: '$' },
+  { field: 'weekendRate', label: 'Weekend ADR', suffix: '$' },
+  { field: 'weekdayOccupancy', label: 'Weekday Occ', suffix: '%' },
+  { field: 'weekendOccupancy', label: 'Weekend Occ', suffix: '%' },
+];
+
+export const SeasonalCalendar: React.FC<SeasonalCalendarProps> = ({ property, onUpdate }) => {
+  const calendar = property.seasonality;
+  const months = calculateMonthlyCashFlows(property);
+  const losingMonths = months.filter(m => m.cashFlow < 0).map(m => MONTH_LABELS[m.month]);
+
+  const updateCell = (index: number, field: keyof SeasonalMonth, value: number) => {
+    if (!calendar) return;
+    const next = calendar.map((m, i) => (i === index ? { ...m, [field]: value } : m));
+    onUpdate({ ...property, seasonality: next });
+  };
+
+  return (
+    <section className="space-y-4">
+      <div className="flex justify-between items-center">
+        <h3 className="font-semibold text-slate-700 flex items-center gap-2">
+          <CalendarDays size={18} /> Seasonal Revenue
+        </h3>
+        <button
+          onClick={() => onUpdate({ ...property, seasonality: calendar ? undefined : buildFlatSeasonality(property) })}
+          className="text-xs text-indigo-600 hover:text-indigo-800 bg-indigo-50 hover:bg-indigo-100 px-2 py-1 rounded transition-colors"
+        >
+          {calendar ? 'Use Flat Rate' : 'Enable Monthly Calendar'}
+        </button>
+      </div>
+
+      {calendar ? (
+        <div className="overflow-x-auto border border-slate-200 rounded-lg">
+          <table className="w-full text-xs">
+            <thead className="bg-slate-50 text-slate-500 uppercase">
+              <tr>
+                <th className="px-2 py-2 text-left font-bold">Month</th>
+                {COLUMNS.map(c => (
+                  <th key={c.field} className="px-2 py-2 text-right font-bold whitespace-nowrap">{c.label}</th>
+                ))}
+                <th className="px-2 py-2 text-right font-bold">Revenue</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {calendar.map((m, i) => (
+                <tr key={MONTH_LABELS[i]}>
+                  <td className="px-2 py-1 font-medium text-slate-700">{MONTH_LABELS[i]}</td>
+                  {COLUMNS.map(c => (
+                    <td key={c.field} className="px-1 py-1">
+                      <input
+                        type="number"
+                        value={m[c.field]}
+                        min={0}
+                        max={c.suffix === '%' ? 100 : undefined}
+                        onChange={(e) => updateCell(i, c.field, parseFloat(e.target.value) || 0)}
+                        className="w-full border border-slate-200 rounded px-2 py-1 text-right font-mono text-slate-800 focus:ring-2 focus:ring-indigo-500 outline-none"
+                      />
+                    </td>
+                  ))}
+                  <td className={`px-2 py-1 text-right font-mono ${months[i].cashFlow < 0 ? 'text-red-600' : 'text-slate-700'}`}>
+                    {formatCurrency(months[i].revenue)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <p className="text-xs text-slate-400 italic">
+          Revenue uses the flat nightly rate and occupancy above. Enable the monthly calendar to model peak and shoulder seasons.
+        </p>
+      )}
+
+      <div className="bg-white rounded-lg border border-slate-200 p-4">
+        <BarChart
+          labels={MONTH_LABELS}
+          series={[
+            { name: 'Revenue', values: months.map(m => m.revenue), color: 'bg-emerald-400' },
+            { name: 'Cash Flow', values: months.map(m => m.cashFlow), color: 'bg-indigo-500', negativeColor: 'bg-red-500' },
+          ]}
+          format={formatCurrency}
+        />
+      </div>
+
+      {losingMonths.length > 0 && (
+        <p className="text-xs text-red-700 bg-red-50 border border-red-100 rounded p-2">
+          Negative cash flow in {losingMonths.join(', ')}.
+        </p>
+      )}
+    </section>
+  );
+};
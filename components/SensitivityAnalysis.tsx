@@ -0,0 +1,131 @@
+import React, { useMemo, useState } from 'react';
+import { Property } from '../types';
+import { formatCurrency, formatPercent } from '../utils/calculations';
+import {
+  runSensitivity,
+  runTwoWayGrid,
+  SensitivityMetric,
+  SensitivityVariable,
+  SENSITIVITY_LABELS,
+  SENSITIVITY_VARIABLES
+} from '../utils/sensitivity';
+import { BarChartHorizontal } from 'lucide-react';
+
+interface SensitivityAnalysisProps {
+  property: Property;
+}
+
+const RANGES = [10, 20, 30];
+
+const formatStep = (v: number) => `${v > 0 ? '+' : ''}${v.toFixed(0)}%`;
+
+export const SensitivityAnalysis: React.FC<SensitivityAnalysisProps> = ({ property }) => {
+  const [range, setRange] = useState(20);
+  const [metric, setMetric] = useState<SensitivityMetric>('cashFlow');
+  const [xVariable, setXVariable] = useState<SensitivityVariable>('nightlyRate');
+  const [yVariable, setYVariable] = useState<SensitivityVariable>('occupancyRate');
+
+  const format = metric === 'cashFlow' ? formatCurrency : formatPercent;
+  const { base, bars } = useMemo(() => runSensitivity(property, range, metric), [property, range, metric]);
+  const grid = useMemo(() => runTwoWayGrid(property, xVariable, yVariable, range, metric), [property, xVariable, yVariable, range, metric]);
+  const maxDelta = Math.max(1e-9, ...bars.flatMap(b => [Math.abs(b.low - base), Math.abs(b.high - base)]));
+
+  return (
+    <section className="space-y-6">
+      <div className="flex flex-wrap justify-between items-center gap-2">
+        <h3 className="font-semibold text-slate-700 flex items-center gap-2">
+          <BarChartHorizontal size={18} /> Sensitivity Analysis
+        </h3>
+        <div className="flex gap-2 text-xs">
+          <select value={metric} onChange={(e) => setMetric(e.target.value as SensitivityMetric)} className="border border-slate-200 rounded px-2 py-1 text-slate-700">
+            <option value="cashFlow">Monthly Cash Flow</option>
+            <option value="cashOnCashReturn">Cash on Cash</option>
+          </select>
+          <div className="flex rounded overflow-hidden border border-slate-200">
+            {RANGES.map(r => (
+              <button
+                key={r}
+                onClick={() => setRange(r)}
+                className={`px-2 py-1 ${range === r ? 'bg-indigo-600 text-white' : 'bg-white text-slate-600 hover:bg-slate-50'}`}
+              >
+                ±{r}%
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {/* Tornado Chart */}
+      <div className="bg-white rounded-lg border border-slate-200 p-4 space-y-2">
+        <div className="flex justify-between text-[10px] text-slate-400 uppercase font-bold">
+          <span>Input −{range}%</span>
+          <span>Base {format(base)}</span>
+          <span>Input +{range}%</span>
+        </div>
+        {bars.map(b => {
+          const lowDelta = b.low - base;
+          const highDelta = b.high - base;
+          const segment = (delta: number, key: string) => {
+            const width = (Math.abs(delta) / maxDelta) * 50;
+            return (
+              <div
+                key={key}
+                className={`absolute top-0 bottom-0 ${delta >= 0 ? 'bg-emerald-400' : 'bg-red-400'}`}
+                style={delta >= 0 ? { left: '50%', width: `${width}%` } : { right: '50%', width: `${width}%` }}
+              ></div>
+            );
+          };
+          return (
+            <div key={b.variable} className="flex items-center gap-3 text-xs">
+              <span className="w-28 shrink-0 text-slate-600 truncate">{b.label}</span>
+              <div className="relative flex-1 h-5 bg-slate-50 rounded" title={`−${range}%: ${format(b.low)} · +${range}%: ${format(b.high)}`}>
+                {segment(lowDelta, 'low')}
+                {segment(highDelta, 'high')}
+                <div className="absolute top-0 bottom-0 left-1/2 border-l border-slate-400"></div>
+              </div>
+              <span className="w-24 shrink-0 text-right font-mono text-slate-500">±{format(b.swing / 2)}</span>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Two-Variable Grid */}
+      <div className="space-y-2">
+        <div className="flex flex-wrap items-center gap-2 text-xs text-slate-600">
+          <select value={yVariable} onChange={(e) => setYVariable(e.target.value as SensitivityVariable)} className="border border-slate-200 rounded px-2 py-1">
+            {SENSITIVITY_VARIABLES.map(v => <option key={v} value={v}>{SENSITIVITY_LABELS[v]}</option>)}
+          </select>
+          <span>×</span>
+          <select value={xVariable} onChange={(e) => setXVariable(e.target.value as SensitivityVariable)} className="border border-slate-200 rounded px-2 py-1">
+            {SENSITIVITY_VARIABLES.map(v => <option key={v} value={v}>{SENSITIVITY_LABELS[v]}</option>)}
+          </select>
+        </div>
+        <div className="overflow-x-auto border border-slate-200 rounded-lg">
+          <table className="w-full text-xs text-center">
+            <thead className="bg-slate-50 text-slate-500">
+              <tr>
+                <th className="px-2 py-2 text-left font-bold">{SENSITIVITY_LABELS[yVariable]} ↓ / {SENSITIVITY_LABELS[xVariable]} →</th>
+                {grid.xSteps.map(dx => <th key={dx} className="px-2 py-2 font-bold">{formatStep(dx)}</th>)}
+              </tr>
+            </thead>
+            <tbody className="font-mono">
+              {grid.values.map((row, yi) => (
+                <tr key={grid.ySteps[yi]} className="border-t border-slate-100">
+                  <td className="px-2 py-1.5 text-left font-bold text-slate-500">{formatStep(grid.ySteps[yi])}</td>
+                  {row.map((v, xi) => (
+                    <td
+                      key={grid.xSteps[xi]}
+                      className={`px-2 py-1.5 ${v >= 0 ? 'bg-emerald-50 text-emerald-700' : 'bg-red-50 text-red-700'} ${grid.xSteps[xi] === 0 && grid.ySteps[yi] === 0 ? 'font-bold ring-1 ring-inset ring-slate-400' : ''}`}
+                    >
+                      {format(v)}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </section>
+  );
+};
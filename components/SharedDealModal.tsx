@@ -0,0 +1,95 @@
+import React from 'react';
+import { CalculationResult } from '../types';
+import { DAMAGED_LINK_ERROR, SharedDealResult } from '../utils/shareLink';
+import { calculateMetrics, formatCurrency, formatPercent } from '../utils/calculations';
+import { X, Link2, Download, AlertCircle } from 'lucide-react';
+
+// Base numbers, as the imported copy shows them. A link can pass validation and still hold
+// numbers the calculations choke on
+const previewMetrics = (deal: SharedDealResult): CalculationResult | null => {
+  if (!deal.property) return null;
+  try {
+    return calculateMetrics(deal.property);
+  } catch (e) {
+    console.error(e);
+    return null;
+  }
+};
+
+interface SharedDealModalProps {
+  deal: SharedDealResult | null;
+  alreadyInPortfolio: boolean;
+  onImport: () => void;
+  onDismiss: () => void;
+}
+
+export const SharedDealModal: React.FC<SharedDealModalProps> = ({ deal, alreadyInPortfolio, onImport, onDismiss }) => {
+  if (!deal) return null;
+  const metrics = previewMetrics(deal);
+  const property = metrics ? deal.property : null;
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/50 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-md overflow-hidden animate-fade-in-up border border-slate-200">
+        <div className="p-4 border-b border-slate-100 flex justify-between items-center bg-slate-50">
+          <h3 className="font-semibold text-slate-800 flex items-center gap-2"><Link2 size={18} /> Shared Deal</h3>
+          <button onClick={onDismiss} className="text-slate-400 hover:text-slate-600 transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {!property || !metrics ? (
+            <p className="text-sm text-red-700 bg-red-50 border border-red-100 rounded p-3 flex items-start gap-2">
+              <AlertCircle size={16} className="flex-shrink-0 mt-0.5" /> {deal.error || DAMAGED_LINK_ERROR}
+            </p>
+          ) : (
+            <>
+              <div>
+                <p className="font-semibold text-slate-800">{property.address}</p>
+                <p className="text-sm text-slate-500">
+                  {formatCurrency(property.price)} · {property.bedrooms} bd · {property.bathrooms} ba · {property.sqft.toLocaleString()} sq ft
+                  {property.scenarios?.length ? ` · ${property.scenarios.length} scenario${property.scenarios.length === 1 ? '' : 's'}` : ''}
+                </p>
+              </div>
+              <div className="grid grid-cols-3 gap-2">
+                {[
+                  { label: 'Net Monthly', value: formatCurrency(metrics.cashFlow), color: metrics.cashFlow > 0 ? 'text-emerald-600' : 'text-red-600' },
+                  { label: 'Cash on Cash', value: formatPercent(metrics.cashOnCashReturn), color: 'text-blue-600' },
+                  { label: 'Cap Rate', value: formatPercent(metrics.capRate), color: 'text-purple-600' },
+                ].map(m => (
+                  <div key={m.label} className="bg-slate-50 p-3 rounded-lg border border-slate-100">
+                    <p className="text-[10px] text-slate-500 uppercase font-bold">{m.label}</p>
+                    <p className={`font-mono font-bold ${m.color}`}>{m.value}</p>
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-slate-500">
+                The deal is added to your portfolio as a separate prospect, so your edits won't affect the sender's.
+                {alreadyInPortfolio && ' You already have this property; importing adds a second copy.'}
+                {' '}Uploaded photos aren't included in links.
+              </p>
+            </>
+          )}
+
+          <div className="flex gap-2">
+            <button
+              onClick={onDismiss}
+              className="flex-1 border border-slate-200 text-slate-700 py-2 rounded-lg font-medium hover:bg-slate-50 transition-colors"
+            >
+              {property ? 'Not Now' : 'Close'}
+            </button>
+            {property && (
+              <button
+                onClick={onImport}
+                className="flex-1 bg-indigo-600 text-white py-2 rounded-lg font-medium hover:bg-indigo-700 flex items-center justify-center gap-2 transition-colors"
+              >
+                <Download size={16} /> Import as Copy
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,78 @@
+import React from 'react';
+import { Property, StrFeeAssumptions, StrRevenueBreakdown } from '../types';
+import { DEFAULT_STR_FEES, formatCurrency } from '../utils/calculations';
+import { ExpenseInput } from './FormInputs';
+import { Receipt } from 'lucide-react';
+
+interface StrRevenuePanelProps {
+  property: Property;
+  revenue: StrRevenueBreakdown;
+  onUpdate: (p: Property) => void;
+}
+
+export const StrRevenuePanel: React.FC<StrRevenuePanelProps> = ({ property, revenue, onUpdate }) => {
+  const fees = property.strFees;
+
+  const updateFees = (field: keyof StrFeeAssumptions, value: number) => {
+    if (!fees) return;
+    onUpdate({ ...property, strFees: { ...fees, [field]: value } });
+  };
+
+  // Signed lines of the average month, top to bottom
+  const lines: { label: string; value: number; muted?: boolean; total?: boolean }[] = [
+    { label: 'Nightly Revenue', value: revenue.nightlyRevenue },
+    { label: 'Cleaning Fees Charged', value: revenue.cleaningFees },
+    { label: 'Gross Booking Revenue', value: revenue.grossRevenue, total: true },
+    { label: 'Lodging Tax Collected', value: revenue.lodgingTax, muted: true },
+    { label: 'Lodging Tax Remitted', value: -revenue.lodgingTax, muted: true },
+    { label: 'OTA Host Fees', value: -revenue.platformFees },
+    { label: 'Card Processing', value: -revenue.cardFees },
+    { label: 'Cleaning Costs', value: -revenue.cleaningCosts },
+    { label: 'Net Booking Revenue', value: revenue.netRevenue, total: true },
+  ];
+
+  return (
+    <section className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h3 className="font-semibold text-slate-700 flex items-center gap-2">
+          <Receipt size={18} /> Booking Fees & Lodging Tax
+        </h3>
+        <button
+          onClick={() => onUpdate({ ...property, strFees: fees ? undefined : DEFAULT_STR_FEES })}
+          className="text-xs text-indigo-600 hover:text-indigo-800 bg-indigo-50 hover:bg-indigo-100 px-2 py-1 rounded transition-colors"
+        >
+          {fees ? 'Remove Booking Fees' : 'Model Booking Fees'}
+        </button>
+      </div>
+
+      {fees ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="grid grid-cols-2 gap-3 content-start">
+            <ExpenseInput label="Avg Stay Length" value={fees.averageStayNights} onChange={(v) => updateFees('averageStayNights', Math.max(1, v))} suffix="nts" />
+            <ExpenseInput label="Cleaning Fee / Stay" value={fees.cleaningFeePerStay} onChange={(v) => updateFees('cleaningFeePerStay', v)} />
+            <ExpenseInput label="Cleaning Cost / Turn" value={fees.cleaningCostPerTurnover} onChange={(v) => updateFees('cleaningCostPerTurnover', v)} />
+            <ExpenseInput label="OTA Host Fee" value={fees.platformFeePercent} onChange={(v) => updateFees('platformFeePercent', v)} suffix="%" />
+            <ExpenseInput label="Card Fees" value={fees.cardFeePercent} onChange={(v) => updateFees('cardFeePercent', v)} suffix="%" />
+            <ExpenseInput label="Lodging Tax" value={fees.lodgingTaxPercent} onChange={(v) => updateFees('lodgingTaxPercent', v)} suffix="%" />
+            <p className="col-span-2 text-[10px] text-slate-400">
+              {revenue.bookings.toFixed(1)} bookings per month from occupancy ÷ stay length. Card fees apply to direct bookings; OTAs process payments themselves.
+            </p>
+          </div>
+
+          <dl className="bg-slate-50 rounded-lg border border-slate-200 p-4 text-xs space-y-1">
+            {lines.map(l => (
+              <div key={l.label} className={`flex justify-between py-1 ${l.total ? 'border-t border-slate-200 font-bold' : ''} ${l.muted ? 'text-slate-400' : 'text-slate-600'}`}>
+                <dt>{l.label}</dt>
+                <dd className={`font-mono ${l.value < 0 && !l.muted ? 'text-red-600' : ''}`}>{formatCurrency(l.value)}</dd>
+              </div>
+            ))}
+          </dl>
+        </div>
+      ) : (
+        <p className="text-xs text-slate-400 italic">
+          Revenue is nightly rate × booked nights with no cleaning fees, host fees or lodging tax. Model booking fees to add them, starting from typical defaults.
+        </p>
+      )}
+    </section>
+  );
+};
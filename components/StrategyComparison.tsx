@@ -0,0 +1,135 @@
+import React from 'react';
+import { Property, RentalStrategy, LeaseStrategy, LeaseAssumptions, TenantPayableExpense } from '../types';
+import {
+  calculateMetrics,
+  formatCurrency,
+  formatPercent,
+  getLeaseAssumptions,
+  RENTAL_STRATEGIES,
+  STRATEGY_LABELS
+} from '../utils/calculations';
+import { ExpenseInput } from './FormInputs';
+import { Repeat, Trophy } from 'lucide-react';
+
+interface StrategyComparisonProps {
+  property: Property;
+  onUpdate: (p: Property) => void;
+}
+
+const PASS_THROUGH: { key: TenantPayableExpense; label: string }[] = [
+  { key: 'utilities', label: 'Utilities' },
+  { key: 'snowRemoval', label: 'Snow Removal' },
+  { key: 'hotTubMaintenance', label: 'Hot Tub' },
+];
+
+export const StrategyComparison: React.FC<StrategyComparisonProps> = ({ property, onUpdate }) => {
+  const metrics = calculateMetrics(property);
+
+  const updateLease = (strategy: LeaseStrategy, changes: Partial<LeaseAssumptions>) => {
+    const current = getLeaseAssumptions(property, strategy);
+    onUpdate({
+      ...property,
+      leaseStrategies: { ...property.leaseStrategies, [strategy]: { ...current, ...changes } },
+    });
+  };
+
+  const toggleOwnerPays = (strategy: LeaseStrategy, key: TenantPayableExpense) => {
+    const current = getLeaseAssumptions(property, strategy).ownerPays;
+    const ownerPays = current.includes(key) ? current.filter(k => k !== key) : [...current, key];
+    updateLease(strategy, { ownerPays });
+  };
+
+  const rows: { label: string; value: (s: RentalStrategy) => string }[] = [
+    { label: 'Gross Income', value: (s) => formatCurrency(metrics.strategies[s].monthlyIncome) },
+    { label: 'Operating Exp.', value: (s) => formatCurrency(metrics.strategies[s].monthlyExpenses) },
+    { label: 'Cash Flow', value: (s) => formatCurrency(metrics.strategies[s].cashFlow) },
+    { label: 'Cash on Cash', value: (s) => formatPercent(metrics.strategies[s].cashOnCashReturn) },
+    { label: 'Cap Rate', value: (s) => formatPercent(metrics.strategies[s].capRate) },
+  ];
+
+  return (
+    <section className="space-y-4">
+      <h3 className="font-semibold text-slate-700 flex items-center gap-2">
+        <Repeat size={18} /> Rental Strategy Comparison
+      </h3>
+
+      {property.units ? (
+        <p className="text-xs text-slate-400 italic">
+          The strategy is set per unit in the rent roll above.
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {RENTAL_STRATEGIES.map(s => {
+            const isActive = metrics.strategy === s;
+            const isBest = metrics.bestStrategy === s;
+            const lease = s === 'str' ? null : getLeaseAssumptions(property, s);
+            return (
+              <div
+                key={s}
+                className={`rounded-lg border p-4 space-y-3 ${isBest ? 'border-emerald-400 ring-1 ring-emerald-400 bg-emerald-50/40' : 'border-slate-200 bg-white'}`}
+              >
+                <div className="flex justify-between items-center">
+                  <span className="font-semibold text-slate-800 text-sm">{STRATEGY_LABELS[s]}</span>
+                  {isBest && (
+                    <span className="text-[10px] font-bold uppercase text-emerald-700 bg-emerald-100 px-2 py-0.5 rounded-full flex items-center gap-1">
+                      <Trophy size={10} /> Best
+                    </span>
+                  )}
+                </div>
+
+                <dl className="text-xs space-y-1">
+                  {rows.map(r => (
+                    <div key={r.label} className="flex justify-between">
+                      <dt className="text-slate-500">{r.label}</dt>
+                      <dd className={`font-mono font-semibold ${r.label === 'Cash Flow' && metrics.strategies[s].cashFlow < 0 ? 'text-red-600' : 'text-slate-800'}`}>
+                        {r.value(s)}
+                      </dd>
+                    </div>
+                  ))}
+                </dl>
+
+                {lease ? (
+                  <div className="space-y-2 pt-2 border-t border-slate-100">
+                    <ExpenseInput label="Rent (Mo)" value={lease.monthlyRent} onChange={(v) => updateLease(s as LeaseStrategy, { monthlyRent: v })} />
+                    <div className="grid grid-cols-2 gap-2">
+                      <ExpenseInput label="Vacancy" value={lease.vacancyPercent} onChange={(v) => updateLease(s as LeaseStrategy, { vacancyPercent: v })} suffix="%" />
+                      <ExpenseInput label="Mgmt Fee" value={lease.managementFeePercent} onChange={(v) => updateLease(s as LeaseStrategy, { managementFeePercent: v })} suffix="%" />
+                    </div>
+                    <div className="space-y-1">
+                      <span className="text-xs font-medium text-slate-500 uppercase">Owner Pays</span>
+                      <div className="flex flex-wrap gap-2">
+                        {PASS_THROUGH.map(e => (
+                          <label key={e.key} className="text-xs text-slate-600 flex items-center gap-1 cursor-pointer">
+                            <input
+                              type="checkbox"
+                              checked={lease.ownerPays.includes(e.key)}
+                              onChange={() => toggleOwnerPays(s as LeaseStrategy, e.key)}
+                              className="accent-indigo-600"
+                            />
+                            {e.label}
+                          </label>
+                        ))}
+                      </div>
+                    </div>
+                  </div>
+                ) : (
+                  <p className="text-[10px] text-slate-400 pt-2 border-t border-slate-100">
+                    Uses the nightly rate, occupancy and expense inputs on this page.
+                  </p>
+                )}
+
+                <button
+                  onClick={() => onUpdate({ ...property, rentalStrategy: s })}
+                  disabled={isActive}
+                  className={`w-full text-xs font-medium py-1.5 rounded transition-colors ${isActive ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
+                >
+                  {isActive ? 'Active Strategy' : 'Analyze as ' + STRATEGY_LABELS[s]}
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </section>
+  );
+};
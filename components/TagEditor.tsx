@@ -0,0 +1,39 @@
+import React, { useState } from 'react';
+import { Tag, X } from 'lucide-react';
+
+interface TagEditorProps {
+  tags: string[];
+  onChange: (tags: string[]) => void;
+}
+
+export const TagEditor: React.FC<TagEditorProps> = ({ tags, onChange }) => {
+  const [draft, setDraft] = useState('');
+
+  const handleAdd = () => {
+    const tag = draft.trim().toLowerCase().replace(/^#/, '');
+    if (tag && !tags.includes(tag)) onChange([...tags, tag]);
+    setDraft('');
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-xs">
+      <Tag size={14} className="text-slate-400" />
+      {tags.map(tag => (
+        <span key={tag} className="flex items-center gap-1 bg-slate-100 text-slate-600 px-2 py-0.5 rounded-full">
+          #{tag}
+          <button onClick={() => onChange(tags.filter(t => t !== tag))} className="text-slate-400 hover:text-red-600">
+            <X size={12} />
+          </button>
+        </span>
+      ))}
+      <input
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+        onBlur={handleAdd}
+        placeholder={tags.length ? 'Add tag' : 'Add tags, e.g. mountain'}
+        className="border border-slate-200 rounded px-2 py-0.5 w-36 text-slate-700 focus:ring-2 focus:ring-indigo-500 outline-none"
+      />
+    </div>
+  );
+};
@@ -0,0 +1,69 @@
+import React from 'react';
+import { Property, TaxAssumptions } from '../types';
+import { calculateTaxImpact, DEFAULT_TAX, formatCurrency } from '../utils/calculations';
+import { SliderInput } from './FormInputs';
+import { Landmark } from 'lucide-react';
+
+interface TaxPanelProps {
+  property: Property;
+  onUpdate: (p: Property) => void;
+}
+
+export const TaxPanel: React.FC<TaxPanelProps> = ({ property, onUpdate }) => {
+  const tax = property.tax || DEFAULT_TAX;
+  const result = calculateTaxImpact(property);
+
+  const updateTax = <K extends keyof TaxAssumptions>(field: K, value: TaxAssumptions[K]) => {
+    onUpdate({ ...property, tax: { ...tax, [field]: value } });
+  };
+
+  const pct = (v: number) => `${v}%`;
+
+  return (
+    <section className="space-y-6">
+      <h3 className="font-semibold text-slate-700 flex items-center gap-2">
+        <Landmark size={18} /> Tax & Depreciation
+      </h3>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-4">
+        <SliderInput label="Land Value (% of Price)" value={tax.landValuePercent} onChange={(v) => updateTax('landValuePercent', v)} min={0} max={80} step={1} format={pct} />
+        <SliderInput label="Marginal Tax Rate (%)" value={tax.marginalTaxRate} onChange={(v) => updateTax('marginalTaxRate', v)} min={0} max={55} step={1} format={pct} />
+      </div>
+
+      <div className="bg-slate-50 rounded-lg border border-slate-200 p-4 space-y-4">
+        <label className="flex items-center gap-2 text-sm font-medium text-slate-700 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={tax.costSegregation}
+            onChange={(e) => updateTax('costSegregation', e.target.checked)}
+            className="accent-indigo-600"
+          />
+          Cost Segregation Study
+        </label>
+        {tax.costSegregation && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-4">
+            <SliderInput label="Reclassified to 5/7/15-yr (%)" value={tax.shortLifePercent} onChange={(v) => updateTax('shortLifePercent', v)} min={0} max={50} step={1} format={pct} />
+            <SliderInput label="Bonus Depreciation (%)" value={tax.bonusDepreciationPercent} onChange={(v) => updateTax('bonusDepreciationPercent', v)} min={0} max={100} step={10} format={pct} />
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-center text-xs">
+        {[
+          { label: 'Building Basis', value: result.buildingBasis },
+          { label: 'Yr 1 Depreciation', value: result.annualDepreciation },
+          { label: 'Yr 1 Interest', value: result.mortgageInterest },
+          { label: 'Taxable Income', value: result.taxableIncome },
+        ].map(item => (
+          <div key={item.label} className="bg-white p-2 rounded border border-slate-100">
+            <span className="text-[10px] font-bold text-slate-500 uppercase block">{item.label}</span>
+            <span className="font-mono font-semibold text-slate-800">{formatCurrency(item.value)}</span>
+          </div>
+        ))}
+      </div>
+      <p className="text-[10px] text-slate-400">
+        Straight-line over 27.5 years. Tax savings assume the paper loss offsets other income, which for STRs generally requires material participation.
+      </p>
+    </section>
+  );
+};
@@ -0,0 +1,36 @@
+import React from 'react';
+import { UnderwritingCheck } from '../types';
+import { ListChecks, CheckCircle2, XCircle } from 'lucide-react';
+
+interface UnderwritingChecklistProps {
+  checks: UnderwritingCheck[];
+}
+
+export const UnderwritingChecklist: React.FC<UnderwritingChecklistProps> = ({ checks }) => {
+  const passedCount = checks.filter(c => c.passed).length;
+
+  return (
+    <section className="bg-white rounded-lg border border-slate-200 p-4 space-y-3">
+      <div className="flex justify-between items-center">
+        <h3 className="font-semibold text-slate-700 flex items-center gap-2">
+          <ListChecks size={18} /> Underwriting Checklist
+        </h3>
+        <span className={`text-xs font-bold px-2 py-1 rounded ${passedCount === checks.length ? 'bg-emerald-50 text-emerald-700' : 'bg-amber-50 text-amber-700'}`}>
+          {passedCount} / {checks.length} passed
+        </span>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6">
+        {checks.map(c => (
+          <div key={c.label} className="flex items-center gap-2 border-b border-slate-100 py-1.5 text-sm">
+            {c.passed
+              ? <CheckCircle2 size={16} className="text-emerald-500 shrink-0" />
+              : <XCircle size={16} className="text-red-500 shrink-0" />}
+            <span className="text-slate-600 flex-1">{c.label}</span>
+            <span className={`font-mono font-semibold ${c.passed ? 'text-slate-800' : 'text-red-600'}`}>{c.value}</span>
+            <span className="text-[10px] text-slate-400 w-32 text-right">{c.requirement}</span>
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+};
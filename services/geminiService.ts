@@ -1,4 +1,5 @@
 import { GoogleGenAI, Modality, Type } from "@google/genai";
+import { OfferSolution } from "../types";
 
 const getAI = () => new GoogleGenAI({ apiKey: process.env.API_KEY });
 
@@ -204,9 +205,19 @@ export const fetchPropertyListing = async (query: string) => {
 };
 
 // --- Fair Offer Analysis ---
-export const analyzeFairOffer = async (property: any, metrics: any) => {
+export const analyzeFairOffer = async (property: any, metrics: any, maxOffer?: OfferSolution) => {
   const ai = getAI();
   try {
+    let solverText = "";
+    if (maxOffer) {
+        const targetText = `${maxOffer.target.metric} >= ${maxOffer.target.value}`;
+        solverText = maxOffer.unconstrained
+          ? `Deterministic Max Offer (solver): the investor's target (${targetText}) holds at any purchase price, so it does not limit the offer.`
+          : maxOffer.maxPrice !== null
+          ? `Deterministic Max Offer (solver): $${maxOffer.maxPrice} is the highest price that meets the investor's target (${targetText}) with all other inputs unchanged.`
+          : `Deterministic Max Offer (solver): no purchase price meets the investor's target (${targetText}) with the current rent and expense inputs.`;
+    }
+
     const prompt = `
       Act as a senior real estate investment analyst.
       Analyze this property based on the user's adjusted numbers:
@@ -227,9 +238,11 @@ export const analyzeFairOffer = async (property: any, metrics: any) => {
       - Hot Tub: $${property.hotTubMaintenance}/mo
       - Taxes: $${property.propertyTax}/yr
       
+      ${solverText}
+      
       Based on these metrics and general market conditions for this area (use Google Search if needed for recent comps):
       1. Is this a good investment at the current price?
-      2. What would be a "fair offer" to make the numbers work better if they are tight?
+      2. What would be a "fair offer" to make the numbers work better if they are tight? If a solver max offer is given, reason from it rather than inventing a number.
       3. Are the expense estimates realistic?
       
       Keep the response concise, practical, and actionable (max 4 sentences).
@@ -0,0 +1,15 @@
+// Web Worker entry: runs the Monte Carlo simulation off the UI thread
+import { Property, MonteCarloConfig } from '../types';
+import { runMonteCarlo } from '../utils/monteCarlo';
+
+const ctx = self as unknown as Worker;
+
+ctx.onmessage = (e: MessageEvent<{ property: Property; config: MonteCarloConfig }>) => {
+  try {
+    const { property, config } = e.data;
+    const result = runMonteCarlo(property, config, (completed) => ctx.postMessage({ type: 'progress', completed }));
+    ctx.postMessage({ type: 'done', result });
+  } catch (error) {
+    ctx.postMessage({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -0,0 +1,46 @@
+import { Property, MonteCarloConfig, MonteCarloResult } from '../types';
+
+export interface SimulationHandle {
+  promise: Promise<MonteCarloResult>;
+  cancel: () => void;
+}
+
+// --- Monte Carlo (Web Worker) ---
+export const startMonteCarlo = (
+  property: Property,
+  config: MonteCarloConfig,
+  onProgress?: (completed: number) => void
+): SimulationHandle => {
+  const worker = new Worker(new URL('./monteCarlo.worker.ts', import.meta.url), { type: 'module' });
+  let settle: { reject: (e: Error) => void } | null = null;
+
+  const promise = new Promise<MonteCarloResult>((resolve, reject) => {
+    settle = { reject };
+    worker.onmessage = (e: MessageEvent) => {
+      const msg = e.data;
+      if (msg.type === 'progress') {
+        onProgress?.(msg.completed);
+      } else if (msg.type === 'done') {
+        worker.terminate();
+        resolve(msg.result);
+      } else if (msg.type === 'error') {
+        worker.terminate();
+        reject(new Error(msg.message));
+      }
+    };
+    worker.onerror = (e) => {
+      worker.terminate();
+      reject(new Error(e.message || 'Simulation worker failed'));
+    };
+  });
+
+  worker.postMessage({ property, config });
+
+  return {
+    promise,
+    cancel: () => {
+      worker.terminate();
+      settle?.reject(new Error('Simulation cancelled'));
+    },
+  };
+};
@@ -0,0 +1,141 @@
+import { MemoBranding, Property, SavedView } from '../types';
+import { migrateProperty, SCHEMA_VERSION } from '../utils/migrations';
+import { isObject } from '../utils/portfolioFile';
+
+// IndexedDB layout. DB_VERSION only tracks object stores; record shapes are versioned
+// per record with SCHEMA_VERSION so old entries can be upgraded on load.
+const DB_NAME = 'propvest-ai';
+const DB_VERSION = 3;
+const PROPERTY_STORE = 'properties';
+const VIEW_STORE = 'views';
+const SETTINGS_STORE = 'settings'; // one record per setting, keyed by name
+
+interface StoredProperty {
+  id: string;
+  schemaVersion: number;
+  position: number; // sidebar order
+  updatedAt: string;
+  property: Property;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this browser'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = (e) => {
+      const db = request.result;
+      if (e.oldVersion < 1) db.createObjectStore(PROPERTY_STORE, { keyPath: 'id' });
+      if (e.oldVersion < 2) db.createObjectStore(VIEW_STORE, { keyPath: 'id' });
+      if (e.oldVersion < 3) db.createObjectStore(SETTINGS_STORE, { keyPath: 'id' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error || new Error('Could not open the local database'));
+    request.onblocked = () => reject(new Error('Local database upgrade is blocked by another open tab'));
+  });
+  // Let the next call retry instead of caching the failure
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+};
+
+const toRecord = (property: Property, position: number): StoredProperty => ({
+  id: property.id,
+  schemaVersion: SCHEMA_VERSION,
+  position,
+  updatedAt: new Date().toISOString(),
+  property,
+});
+
+// Records come back as whatever an older version of the app (or another tab) wrote, so callers narrow them
+const readAll = async (storeName: string): Promise<unknown[]> => {
+  const db = await openDatabase();
+  return new Promise<unknown[]>((resolve, reject) => {
+    const request = db.transaction(storeName, 'readonly').objectStore(storeName).getAll();
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const readOne = async (storeName: string, id: string): Promise<unknown> => {
+  const db = await openDatabase();
+  return new Promise<unknown>((resolve, reject) => {
+    const request = db.transaction(storeName, 'readonly').objectStore(storeName).get(id);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const writeOne = async (storeName: string, record: object): Promise<void> => {
+  const db = await openDatabase();
+  await new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(storeName, 'readwrite');
+    tx.objectStore(storeName).put(record);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('Save was aborted'));
+  });
+};
+
+// Replaces everything in a store in a single transaction
+const replaceAll = async (storeName: string, records: object[]): Promise<void> => {
+  const db = await openDatabase();
+  await new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(storeName, 'readwrite');
+    const store = tx.objectStore(storeName);
+    store.clear();
+    records.forEach(r => store.put(r));
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('Save was aborted'));
+  });
+};
+
+// Loads the saved portfolio, upgrading records written by older versions of the app.
+// Resolves to an empty array when nothing has been saved yet.
+export const loadProperties = async (): Promise<Property[]> => {
+  const records = (await readAll(PROPERTY_STORE)).filter(
+    (record): record is Record<string, unknown> & { property: Record<string, unknown> } => isObject(record) && isObject(record.property));
+
+  let upgraded = false;
+  const properties = records
+    .sort((a, b) => (Number(a.position) || 0) - (Number(b.position) || 0))
+    .map(record => {
+      const version = Number(record.schemaVersion) || 1;
+      if (version < SCHEMA_VERSION) upgraded = true;
+      return migrateProperty(record.property, version);
+    });
+
+  if (upgraded) await saveProperties(properties);
+  return properties;
+};
+
+export const saveProperties = (properties: Property[]): Promise<void> =>
+  replaceAll(PROPERTY_STORE, properties.map(toRecord));
+
+// --- Saved Sidebar Views ---
+export const loadSavedViews = async (): Promise<SavedView[]> =>
+  (await readAll(VIEW_STORE)).filter((view): view is SavedView =>
+    isObject(view) && typeof view.id === 'string' && typeof view.name === 'string' && isObject(view.ranges)
+    && Array.isArray(view.cities) && Array.isArray(view.tags));
+
+export const saveSavedViews = (views: SavedView[]): Promise<void> => replaceAll(VIEW_STORE, views);
+
+// --- Investor Memo Branding ---
+const MEMO_BRANDING_ID = 'memoBranding';
+
+export const loadMemoBranding = async (): Promise<MemoBranding | null> => {
+  const record = await readOne(SETTINGS_STORE, MEMO_BRANDING_ID);
+  if (!isObject(record)) return null;
+  return {
+    firmName: typeof record.firmName === 'string' ? record.firmName : '',
+    logo: typeof record.logo === 'string' ? record.logo : undefined,
+  };
+};
+
+export const saveMemoBranding = (branding: MemoBranding): Promise<void> =>
+  writeOne(SETTINGS_STORE, { id: MEMO_BRANDING_ID, ...branding });
@@ -11,13 +11,23 @@ export interface Property {
   downPaymentPercent: number;
   interestRate: number;
   loanTermYears: number;
+  extraPrincipalPayment?: number; // monthly, applied on top of the scheduled payment
+  loanStartDate?: string; // YYYY-MM of the first payment, defaults to the current month
+  acquisitionCosts?: AcquisitionCosts; // up-front costs, defaults to 3% closing when absent
+  financing?: LoanTranche[]; // overrides downPaymentPercent / interestRate / loanTermYears when present
   // Short Term Rental Specifics
   nightlyRate: number;
   occupancyRate: number; // 0-100
+  seasonality?: SeasonalMonth[]; // Jan..Dec, overrides nightlyRate/occupancyRate when present
+  strFees?: StrFeeAssumptions; // booking-level fees and lodging tax, none are charged when absent
+  units?: RentalUnit[]; // multi-unit rent roll, replaces the single-unit income inputs when present
+  // Rental Strategy (defaults to short-term)
+  rentalStrategy?: RentalStrategy;
+  leaseStrategies?: Partial<Record<LeaseStrategy, LeaseAssumptions>>;
   // Expenses (Monthly unless specified)
   propertyTax: number; // annual
   insurance: number; // annual
-  managementFeePercent: number; // % of gross revenue
+  managementFeePercent: number; // % of nightly revenue
   snowRemoval: number;
   hotTubMaintenance: number;
   utilities: number;
@@ -27,8 +37,157 @@ export interface Property {
   // AI Data
   aiDescription?: string;
   fairOfferRecommendation?: string;
+  marketResearch?: MarketResearch; // last grounded search, kept so it survives reloads
   // User Data
   isFavorite?: boolean;
+  status?: PropertyStatus; // defaults to 'prospect'
+  tags?: string[]; // free-form labels, e.g. "mountain", "lake"
+  // Pro Forma
+  projection?: ProjectionAssumptions;
+  tax?: TaxAssumptions;
+  offerTarget?: OfferTarget;
+  brrrr?: BrrrrAssumptions;
+  disposition?: DispositionAssumptions;
+  // Scenarios: named override sets on top of the fields above (the "base" numbers)
+  scenarios?: PropertyScenario[];
+  activeScenarioId?: string; // base numbers apply when absent
+}
+
+export interface PropertyScenario {
+  id: string;
+  name: string;
+  overrides: Partial<Property>; // only the inputs that differ from base
+}
+
+export type PropertyStatus = 'owned' | 'prospect';
+
+export interface MarketResearch {
+  query: string;
+  text: string;
+  sources: { title: string; uri: string }[];
+  fetchedAt: string; // ISO timestamp
+}
+
+export type LoanType = 'fixed' | 'arm' | 'interestOnly' | 'sellerCarry' | 'dscr';
+
+export interface LoanTranche {
+  id: string;
+  label: string;
+  type: LoanType;
+  ltvPercent: number; // loan amount as % of purchase price
+  interestRate: number; // initial rate, %
+  termYears: number; // total term including any interest-only period
+  interestOnlyMonths: number;
+  armFixedYears?: number; // ARM: years before the first reset
+  armResetRate?: number; // ARM: fully indexed rate after reset, %
+  balloonYears?: number; // remaining balance due at this point (seller carry)
+  pointsPercent: number; // % of loan amount, paid at closing
+  pmiRate: number; // annual % of original loan, charged until balance <= 78% of price
+  minDscr?: number; // DSCR loans: lender's minimum NOI / debt service
+}
+
+export interface CostLineItem {
+  id: string;
+  label: string;
+  amount: number;
+}
+
+export interface AcquisitionCosts {
+  lenderFees: number; // origination, underwriting, appraisal
+  titleEscrow: number;
+  inspection: number;
+  pointsPercent: number; // discount points, % of loan amount
+  otherClosing: number;
+  rehab: CostLineItem[];
+  furnishing: number;
+  setup: number; // photography, smart locks, linens & supplies
+}
+
+export interface AcquisitionCostSummary {
+  downPayment: number;
+  closingCosts: number;
+  lenderFees: number; // the part of closingCosts paid to the purchase lender: fees and points
+  rehab: number;
+  furnishing: number; // furnishing + setup
+  total: number;
+}
+
+export type RentalStrategy = 'str' | 'mtr' | 'ltr';
+export type LeaseStrategy = Exclude<RentalStrategy, 'str'>;
+
+// Monthly expense lines a tenant may take over under a lease
+export type TenantPayableExpense = 'utilities' | 'snowRemoval' | 'hotTubMaintenance';
+
+export interface LeaseAssumptions {
+  monthlyRent: number;
+  vacancyPercent: number; // % of the year unrented
+  managementFeePercent: number; // % of collected rent
+  ownerPays: TenantPayableExpense[];
+}
+
+export interface StrategyResult {
+  monthlyIncome: number;
+  monthlyExpenses: number;
+  cashFlow: number;
+  cashOnCashReturn: number;
+  capRate: number;
+}
+
+export type UnitStrategy = 'str' | 'ltr' | 'owner';
+
+export interface RentalUnit {
+  id: string;
+  label: string;
+  bedrooms: number;
+  bathrooms: number;
+  strategy: UnitStrategy;
+  rate: number; // nightly rate for STR, monthly rent for LTR
+  occupancyRate: number; // 0-100, occupancy for STR, 100 - vacancy for LTR
+  managementFeePercent: number;
+  monthlyExpenses: number; // unit-level costs (utilities, supplies...); shared costs stay on the property
+}
+
+export interface UnitResult {
+  unitId: string;
+  monthlyIncome: number;
+  monthlyExpenses: number; // incl. management and booking fees
+  noi: number;
+}
+
+export interface StrFeeAssumptions {
+  averageStayNights: number;
+  cleaningFeePerStay: number; // charged to the guest
+  cleaningCostPerTurnover: number; // paid to the cleaner
+  platformFeePercent: number; // OTA host fee on nightly revenue + cleaning fees
+  cardFeePercent: number; // processing on the guest total incl. lodging tax (direct bookings)
+  lodgingTaxPercent: number; // occupancy tax collected from guests and remitted
+}
+
+export interface StrRevenueBreakdown {
+  bookings: number;
+  nightlyRevenue: number;
+  cleaningFees: number;
+  grossRevenue: number; // nightly revenue + cleaning fees, excl. lodging tax
+  lodgingTax: number; // collected and remitted, nets to zero
+  platformFees: number;
+  cardFees: number;
+  cleaningCosts: number;
+  netRevenue: number; // gross revenue less fees and turnovers
+}
+
+export interface SeasonalMonth {
+  weekdayRate: number; // ADR Sun-Thu nights
+  weekendRate: number; // ADR Fri-Sat nights
+  weekdayOccupancy: number; // 0-100
+  weekendOccupancy: number; // 0-100
+}
+
+export interface MonthlyCashFlow {
+  month: number; // 0 = Jan
+  revenue: number;
+  operatingExpenses: number;
+  debtService: number;
+  cashFlow: number;
 }
 
 export interface CalculationResult {
@@ -39,6 +198,220 @@ export interface CalculationResult {
   cashOnCashReturn: number;
   capRate: number;
   totalInvestment: number;
+  monthlyManagementFee: number; // included in monthlyExpenses
+  monthlyVariableExpenses: number; // management, booking fees and turnovers; included in monthlyExpenses
+  strRevenue: StrRevenueBreakdown; // average month of short-term bookings
+  occupancyRate: number; // booked / leased share of the year under the active strategy
+  strategy: RentalStrategy; // strategy the headline numbers use
+  strategies: Record<RentalStrategy, StrategyResult>;
+  bestStrategy: RentalStrategy; // highest monthly cash flow
+  financingWarnings: string[];
+  // Underwriting screens (active strategy)
+  dscr: number; // NOI / debt service, Infinity when there is no loan
+  breakEvenOccupancy: number; // %, occupancy at which cash flow is zero
+  breakEvenNightlyRate: number; // short-term ADR at which cash flow is zero
+  grossRentMultiplier: number; // price / annual gross income
+  operatingExpenseRatio: number; // %, operating expenses / gross income
+  passesOnePercentRule: boolean; // monthly gross income >= 1% of price
+  passesFiftyPercentRule: boolean; // cash flows with expenses assumed at 50% of income
+}
+
+export interface UnderwritingCheck {
+  label: string;
+  shortLabel: string; // badge text
+  value: string;
+  requirement: string;
+  passed: boolean;
+}
+
+export type ExitValuation = 'appreciation' | 'salePrice' | 'capRate';
+
+export interface DispositionAssumptions {
+  saleYear: number;
+  valuation: ExitValuation;
+  salePrice: number; // used when valuation = 'salePrice'
+  exitCapRate: number; // %, applied to forward NOI when valuation = 'capRate'
+  sellingCostPercent: number;
+  capitalGainsRate: number; // %, federal + state long-term rate
+  recaptureRate: number; // %, unrecaptured Section 1250 gain
+  exchange1031: boolean;
+  replacementLtv: number; // % financed on the replacement property
+  replacementCapRate: number; // % going-in cap rate of the replacement
+}
+
+export interface DispositionResult {
+  saleYear: number;
+  salePrice: number;
+  sellingCosts: number;
+  loanPayoff: number;
+  netSaleProceeds: number; // before tax
+  adjustedBasis: number;
+  accumulatedDepreciation: number;
+  totalGain: number;
+  depreciationRecaptureTax: number;
+  capitalGainsTax: number;
+  totalTax: number;
+  afterTaxProceeds: number;
+  cumulativeCashFlow: number; // operating cash flow through the sale year
+  equityMultiple: number; // (cash flow + after-tax proceeds) / initial investment
+  exchange: {
+    equityRolled: number;
+    taxDeferred: number;
+    replacementPrice: number;
+    replacementLoan: number;
+    replacementNOI: number; // annual
+  } | null;
+}
+
+export interface BrrrrAssumptions {
+  // Acquisition & rehab financing (typically hard money, interest-only)
+  purchaseLoanPercent: number; // % of purchase price financed
+  rehabBudget: number;
+  rehabLoanPercent: number; // % of rehab budget financed
+  shortTermRate: number; // %, interest-only while rehabbing
+  shortTermPoints: number; // % of the short-term loan
+  rehabMonths: number; // months of carrying costs before the refinance
+  // Refinance
+  afterRepairValue: number;
+  refiLtv: number; // % of ARV
+  refiRate: number; // %
+  refiTermYears: number;
+  refiClosingCostPercent: number; // % of the new loan
+}
+
+export interface BrrrrResult {
+  shortTermLoan: number;
+  carryingCosts: number; // interest + taxes, insurance, utilities, HOA during rehab
+  totalCashIn: number; // everything out of pocket before the refinance
+  refiLoanAmount: number;
+  cashOut: number; // refi proceeds after paying off the short-term loan and refi costs
+  cashRecovered: number; // portion of cash in returned at refi
+  cashLeftInDeal: number;
+  postRefiPayment: number; // monthly P&I on the new loan
+  postRefiCashFlow: number; // monthly
+  postRefiCashOnCash: number | null; // null = infinite return (no cash left in the deal)
+  equityAfterRefi: number;
+  isInfiniteReturn: boolean;
+}
+
+export type OfferTargetMetric = 'cashFlow' | 'cashOnCash' | 'capRate' | 'dscr';
+
+export interface OfferTarget {
+  metric: OfferTargetMetric;
+  value: number; // $/mo for cash flow, % for CoC and cap rate, ratio for DSCR
+}
+
+export interface OfferSolution {
+  target: OfferTarget;
+  maxPrice: number | null; // null when no price meets the target, or every price does
+  metricAtMaxPrice: number | null;
+  discountToList: number | null; // % below the current price (negative = above)
+  unconstrained: boolean; // the target holds at any price, e.g. DSCR with no debt, so it can't cap the offer
+}
+
+export interface TaxAssumptions {
+  landValuePercent: number; // non-depreciable share of the price
+  marginalTaxRate: number; // investor's federal + state marginal rate, %
+  costSegregation: boolean;
+  shortLifePercent: number; // share of the building reclassified to 5/7/15-yr property by a cost seg study
+  bonusDepreciationPercent: number; // bonus taken in year 1 on the short-life share
+}
+
+export interface TaxResult {
+  buildingBasis: number;
+  annualDepreciation: number; // year 1, including any bonus
+  mortgageInterest: number; // year 1
+  taxableIncome: number; // annual; negative is a paper loss
+  taxSavings: number; // annual; negative means tax owed
+  afterTaxCashFlow: number; // annual
+  afterTaxReturn: number; // % of total investment
+}
+
+export interface AmortizationRow {
+  period: number; // 1-based payment number
+  date: string; // YYYY-MM
+  payment: number; // scheduled principal + interest
+  principal: number;
+  interest: number;
+  extraPrincipal: number;
+  pmi: number;
+  balance: number; // remaining after this payment
+}
+
+export interface AmortizationSchedule {
+  loanAmount: number;
+  monthlyPayment: number;
+  rows: AmortizationRow[];
+  totalInterest: number;
+  totalPaid: number;
+  payoffDate: string; // YYYY-MM
+  interestSaved: number; // vs. the schedule with no extra principal
+  monthsSaved: number;
+}
+
+export interface ProjectionAssumptions {
+  holdYears: number;
+  appreciationRate: number; // % per year
+  rentGrowthRate: number; // % per year
+  expenseInflationRate: number; // % per year
+  discountRate: number; // % per year, used for NPV
+  sellingCostPercent: number; // % of sale price at exit
+}
+
+export interface ProjectionYear {
+  year: number;
+  grossIncome: number; // annual
+  operatingExpenses: number; // annual
+  noi: number;
+  debtService: number; // required payments and PMI
+  extraPrincipal: number; // optional prepayments, which build equity rather than cost cash flow
+  cashFlow: number; // NOI less debt service, before prepayments
+  cumulativeCashFlow: number; // cash kept to date, after prepayments
+  propertyValue: number; // end of year
+  loanBalance: number; // end of year
+  equity: number;
+  totalReturn: number; // cumulative cash flow + equity gain over initial investment
+}
+
+export interface ProjectionResult {
+  years: ProjectionYear[];
+  initialInvestment: number;
+  netSaleProceeds: number; // after selling costs and loan payoff at end of hold
+  totalProfit: number;
+  equityMultiple: number;
+  irr: number | null; // %, null when it does not converge
+  npv: number;
+}
+
+export interface MonteCarloConfig {
+  iterations: number;
+  seed: number;
+  occupancySd: number; // relative % standard deviation of occupancy
+  adrSd: number; // relative % standard deviation of nightly rate
+  expenseInflationMean: number; // % applied to fixed expenses
+  expenseInflationSd: number;
+  vacancyShockProbability: number; // % chance per run
+  vacancyShockMonths: number; // months of lost income when a shock hits
+  rateResetProbability: number; // % chance per run
+  rateResetDelta: number; // percentage points added to every loan rate
+  appreciationSd: number; // percentage points around the pro forma appreciation rate
+}
+
+export interface PercentileSummary {
+  p10: number;
+  p50: number;
+  p90: number;
+}
+
+export interface MonteCarloResult {
+  iterations: number;
+  seed: number;
+  probabilityNegativeCashFlow: number; // 0-100
+  cashFlow: PercentileSummary; // monthly
+  cashOnCash: PercentileSummary;
+  irr: PercentileSummary | null; // over runs whose IRR converged, null when none did
+  irrUnresolved: number; // runs left out of irr
+  histogram: { from: number; to: number; count: number }[]; // cash on cash buckets
 }
 
 export enum AIStatus {
@@ -52,4 +425,68 @@ export interface ChatMessage {
   role: 'user' | 'model';
   text: string;
   sources?: { title: string; uri: string }[];
-}
\ No newline at end of file
+}
+
+export interface PortfolioHolding {
+  id: string;
+  address: string;
+  city: string;
+  status: PropertyStatus;
+  value: number;
+  debt: number; // current loan balance
+  equity: number;
+  cashInvested: number;
+  monthlyCashFlow: number;
+  annualNOI: number;
+}
+
+export interface CityAllocation {
+  city: string;
+  count: number;
+  value: number;
+  cashInvested: number;
+  share: number; // % of cash invested
+}
+
+export interface PortfolioSummary {
+  holdings: PortfolioHolding[];
+  totalValue: number;
+  totalDebt: number;
+  totalEquity: number;
+  totalCashInvested: number;
+  monthlyCashFlow: number;
+  annualNOI: number;
+  blendedCashOnCash: number; // annual cash flow / total cash invested, %
+  blendedCapRate: number; // annual NOI / total value, %
+  loanToValue: number; // %
+  cities: CityAllocation[]; // largest share first
+}
+
+export type ListMetric = 'cashFlow' | 'cashOnCash' | 'capRate' | 'dscr' | 'price' | 'pricePerSqft';
+
+export interface ListRange {
+  min?: number;
+  max?: number;
+}
+
+export type ListSort = ListMetric | 'added';
+
+export interface ListView {
+  sortBy: ListSort; // 'added' keeps the portfolio order (newest first)
+  sortDirection: 'asc' | 'desc';
+  ranges: Partial<Record<ListMetric, ListRange>>;
+  cities: string[]; // empty = any city
+  tags: string[]; // property must carry every listed tag
+  minBeds?: number;
+}
+
+export interface SavedView extends ListView {
+  id: string;
+  name: string;
+}
+
+// Firm details printed on investor memos
+export interface MemoBranding {
+  firmName: string;
+  logo?: string; // data URL, so it prints without a network fetch
+}
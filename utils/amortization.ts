@@ -0,0 +1,173 @@
+import { Property, AmortizationRow, AmortizationSchedule, LoanTranche, LoanType } from '../types';
+
+const currentMonth = () => new Date().toISOString().slice(0, 7);
+
+// PMI drops off automatically once the balance reaches 78% of the original value
+const PMI_CANCEL_LTV = 0.78;
+
+export const LOAN_TYPE_LABELS: Record<LoanType, string> = {
+  fixed: 'Fixed Rate',
+  arm: 'Adjustable (ARM)',
+  interestOnly: 'Interest-Only',
+  sellerCarry: 'Seller Carry',
+  dscr: 'DSCR Loan',
+};
+
+// Standard fully amortizing principal + interest payment
+export const calculateMonthlyPayment = (loanAmount: number, annualRatePercent: number, termYears: number): number => {
+  const monthlyRate = annualRatePercent / 100 / 12;
+  const numberOfPayments = termYears * 12;
+  if (numberOfPayments <= 0) return 0;
+
+  if (monthlyRate > 0) {
+    return (
+      (loanAmount * monthlyRate * Math.pow(1 + monthlyRate, numberOfPayments)) /
+      (Math.pow(1 + monthlyRate, numberOfPayments) - 1)
+    );
+  }
+  return loanAmount / numberOfPayments;
+};
+
+// Adds `months` to a YYYY-MM string
+export const addMonths = (yearMonth: string, months: number): string => {
+  const [y, m] = yearMonth.split('-').map(Number);
+  const total = y * 12 + (m - 1) + months;
+  return `${Math.floor(total / 12)}-${String((total % 12) + 1).padStart(2, '0')}`;
+};
+
+// The loans on a property; legacy properties get a single fixed-rate loan from the simple fields
+export const getLoanTranches = (p: Property): LoanTranche[] => {
+  if (p.financing && p.financing.length > 0) return p.financing;
+  return [{
+    id: 'primary',
+    label: 'Primary Mortgage',
+    type: 'fixed',
+    ltvPercent: 100 - p.downPaymentPercent,
+    interestRate: p.interestRate,
+    termYears: p.loanTermYears,
+    interestOnlyMonths: 0,
+    pointsPercent: 0,
+    pmiRate: 0,
+  }];
+};
+
+export const getTrancheAmount = (p: Property, t: LoanTranche) => p.price * (t.ltvPercent / 100);
+
+export const getTotalLoanAmount = (p: Property) =>
+  getLoanTranches(p).reduce((sum, t) => sum + getTrancheAmount(p, t), 0);
+
+export const getDownPayment = (p: Property) => p.price - getTotalLoanAmount(p);
+
+// Month-by-month rows for a single tranche, handling IO periods, ARM resets, balloons and PMI
+const runTranche = (
+  t: LoanTranche,
+  price: number,
+  extraPrincipal: number,
+  maxPeriods: number = t.termYears * 12
+): Omit<AmortizationRow, 'date'>[] => {
+  const loanAmount = price * (t.ltvPercent / 100);
+  const totalMonths = t.termYears * 12;
+  const ioMonths = Math.min(t.interestOnlyMonths, totalMonths);
+  const armResetPeriod = t.type === 'arm' && t.armFixedYears ? t.armFixedYears * 12 + 1 : null;
+  const balloonPeriod = t.balloonYears ? t.balloonYears * 12 : null;
+
+  let rate = t.interestRate;
+  let payment = calculateMonthlyPayment(loanAmount, rate, (totalMonths - ioMonths) / 12);
+  let balance = loanAmount;
+  const rows: Omit<AmortizationRow, 'date'>[] = [];
+
+  for (let period = 1; period <= Math.min(totalMonths, maxPeriods) && balance > 0.005; period++) {
+    if (period === armResetPeriod && t.armResetRate !== undefined) {
+      rate = t.armResetRate;
+      const remaining = totalMonths - Math.max(period - 1, ioMonths);
+      payment = calculateMonthlyPayment(balance, rate, remaining / 12);
+    }
+
+    const pmi = t.pmiRate > 0 && price > 0 && balance / price > PMI_CANCEL_LTV ? (loanAmount * t.pmiRate) / 100 / 12 : 0;
+    const interest = balance * (rate / 100 / 12);
+    let principal = period <= ioMonths ? 0 : Math.min(payment - interest, balance);
+    const extra = Math.min(extraPrincipal, balance - principal);
+    if (period === balloonPeriod) principal = balance - extra;
+    balance -= principal + extra;
+
+    rows.push({
+      period,
+      payment: principal + interest,
+      principal,
+      interest,
+      extraPrincipal: extra,
+      pmi,
+      balance: Math.max(balance, 0),
+    });
+  }
+  return rows;
+};
+
+// Sums every tranche month by month; extra principal goes to the first tranche
+const runSchedule = (p: Property, extraPrincipal: number, startDate: string, maxPeriods?: number): AmortizationRow[] => {
+  const perTranche = getLoanTranches(p).map((t, i) => runTranche(t, p.price, i === 0 ? extraPrincipal : 0, maxPeriods));
+  const length = Math.max(0, ...perTranche.map(rows => rows.length));
+  const rows: AmortizationRow[] = [];
+
+  for (let i = 0; i < length; i++) {
+    const row: AmortizationRow = {
+      period: i + 1,
+      date: addMonths(startDate, i),
+      payment: 0,
+      principal: 0,
+      interest: 0,
+      extraPrincipal: 0,
+      pmi: 0,
+      balance: 0,
+    };
+    perTranche.forEach(trancheRows => {
+      const r = trancheRows[i];
+      if (!r) return;
+      row.payment += r.payment;
+      row.principal += r.principal;
+      row.interest += r.interest;
+      row.extraPrincipal += r.extraPrincipal;
+      row.pmi += r.pmi;
+      row.balance += r.balance;
+    });
+    rows.push(row);
+  }
+  return rows;
+};
+
+// Debt service (P&I + PMI, no voluntary prepayments) for the first payment
+export const calculateInitialDebtService = (p: Property): number => {
+  const first = runSchedule(p, 0, currentMonth(), 1)[0];
+  return first ? first.payment + first.pmi : 0;
+};
+
+export const buildAmortizationSchedule = (p: Property): AmortizationSchedule => {
+  const startDate = p.loanStartDate || currentMonth();
+  const extra = Math.max(p.extraPrincipalPayment || 0, 0);
+
+  const rows = runSchedule(p, extra, startDate);
+  const totalInterest = rows.reduce((sum, r) => sum + r.interest, 0);
+  const totalPaid = rows.reduce((sum, r) => sum + r.payment + r.extraPrincipal + r.pmi, 0);
+
+  // Baseline without extra principal, to show what the prepayments save
+  const baseline = extra > 0 ? runSchedule(p, 0, startDate) : rows;
+  const baselineInterest = baseline.reduce((sum, r) => sum + r.interest, 0);
+
+  return {
+    loanAmount: getTotalLoanAmount(p),
+    monthlyPayment: rows.length > 0 ? rows[0].payment : 0,
+    rows,
+    totalInterest,
+    totalPaid,
+    payoffDate: rows.length > 0 ? rows[rows.length - 1].date : startDate,
+    interestSaved: baselineInterest - totalInterest,
+    monthsSaved: baseline.length - rows.length,
+  };
+};
+
+// Remaining balance after `monthsPaid` payments of the schedule
+export const balanceAfter = (schedule: AmortizationSchedule, monthsPaid: number): number => {
+  if (monthsPaid <= 0) return schedule.loanAmount;
+  const row = schedule.rows[monthsPaid - 1];
+  return row ? row.balance : 0;
+};
@@ -0,0 +1,70 @@
+import { Property, BrrrrAssumptions, BrrrrResult } from '../types';
+import { calculateAcquisitionCosts, calculateMetrics } from './calculations';
+import { calculateMonthlyPayment } from './amortization';
+
+export const buildDefaultBrrrr = (p: Property): BrrrrAssumptions => {
+  const itemizedRehab = calculateAcquisitionCosts(p).rehab;
+  const rehabBudget = itemizedRehab > 0 ? itemizedRehab : Math.round(p.price * 0.15);
+  return {
+    purchaseLoanPercent: 85,
+    rehabBudget,
+    rehabLoanPercent: 100,
+    shortTermRate: 11,
+    shortTermPoints: 2,
+    rehabMonths: 4,
+    afterRepairValue: Math.round((p.price + rehabBudget) * 1.2),
+    refiLtv: 75,
+    refiRate: p.interestRate,
+    refiTermYears: 30,
+    refiClosingCostPercent: 2,
+  };
+};
+
+// Buy, Rehab, Rent, Refinance: how much cash the refinance pulls back out and what the stabilized deal returns
+export const calculateBrrrr = (p: Property, b: BrrrrAssumptions): BrrrrResult => {
+  const acquisition = calculateAcquisitionCosts(p);
+  // Rehab is modeled here, so don't count an itemized rehab budget twice, and the short-term
+  // loan's points replace the purchase lender's fees and points
+  const otherUpfront = acquisition.closingCosts - acquisition.lenderFees + acquisition.furnishing;
+
+  const purchaseLoan = p.price * (b.purchaseLoanPercent / 100);
+  const rehabLoan = b.rehabBudget * (b.rehabLoanPercent / 100);
+  const shortTermLoan = purchaseLoan + rehabLoan;
+
+  const monthlyHolding = p.propertyTax / 12 + p.insurance / 12 + p.utilities + p.hoa;
+  // Rehab draws go out over the project, so on average half the rehab loan accrues interest
+  const averageBalance = purchaseLoan + rehabLoan / 2;
+  const carryingCosts = b.rehabMonths * (averageBalance * (b.shortTermRate / 100 / 12) + monthlyHolding);
+
+  const totalCashIn =
+    (p.price - purchaseLoan) +
+    (b.rehabBudget - rehabLoan) +
+    shortTermLoan * (b.shortTermPoints / 100) +
+    otherUpfront +
+    carryingCosts;
+
+  const refiLoanAmount = b.afterRepairValue * (b.refiLtv / 100);
+  const cashOut = refiLoanAmount - shortTermLoan - refiLoanAmount * (b.refiClosingCostPercent / 100);
+  const cashRecovered = Math.min(Math.max(cashOut, 0), totalCashIn);
+  const cashLeftInDeal = totalCashIn - cashOut;
+
+  const metrics = calculateMetrics(p);
+  const postRefiPayment = calculateMonthlyPayment(refiLoanAmount, b.refiRate, b.refiTermYears);
+  const postRefiCashFlow = metrics.monthlyIncome - metrics.monthlyExpenses - postRefiPayment;
+  const isInfiniteReturn = cashLeftInDeal <= 0 && postRefiCashFlow > 0;
+
+  return {
+    shortTermLoan,
+    carryingCosts,
+    totalCashIn,
+    refiLoanAmount,
+    cashOut,
+    cashRecovered,
+    cashLeftInDeal,
+    postRefiPayment,
+    postRefiCashFlow,
+    postRefiCashOnCash: cashLeftInDeal > 0 ? ((postRefiCashFlow * 12) / cashLeftInDeal) * 100 : null,
+    equityAfterRefi: b.afterRepairValue - refiLoanAmount,
+    isInfiniteReturn,
+  };
+};
@@ -1,63 +1,648 @@
-import { Property, CalculationResult } from '../types';
+import {
+  Property,
+  CalculationResult,
+  SeasonalMonth,
+  MonthlyCashFlow,
+  RentalStrategy,
+  LeaseStrategy,
+  LeaseAssumptions,
+  StrategyResult,
+  StrFeeAssumptions,
+  StrRevenueBreakdown,
+  RentalUnit,
+  UnitStrategy,
+  UnitResult,
+  TaxAssumptions,
+  TaxResult,
+  AcquisitionCosts,
+  AcquisitionCostSummary,
+  OfferTarget,
+  OfferTargetMetric,
+  OfferSolution,
+  UnderwritingCheck
+} from '../types';
+import {
+  buildAmortizationSchedule,
+  calculateInitialDebtService,
+  getDownPayment,
+  getLoanTranches,
+  getTrancheAmount
+} from './amortization';
 
-export const calculateMetrics = (p: Property): CalculationResult => {
-  // 1. Mortgage Calculation
-  const downPayment = p.price * (p.downPaymentPercent / 100);
-  const loanAmount = p.price - downPayment;
-  const monthlyRate = p.interestRate / 100 / 12;
-  const numberOfPayments = p.loanTermYears * 12;
-
-  let monthlyMortgage = 0;
-  if (monthlyRate > 0) {
-    monthlyMortgage =
-      (loanAmount * monthlyRate * Math.pow(1 + monthlyRate, numberOfPayments)) /
-      (Math.pow(1 + monthlyRate, numberOfPayments) - 1);
-  } else {
-    monthlyMortgage = loanAmount / numberOfPayments;
+export const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+export const DAYS_IN_MONTH = [31, 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+const WEEKEND_SHARE = 2 / 7; // Fri + Sat nights
+
+// Seeds a flat 12-month calendar from the single nightly rate / occupancy inputs
+export const buildFlatSeasonality = (p: Property): SeasonalMonth[] =>
+  MONTH_LABELS.map(() => ({
+    weekdayRate: p.nightlyRate,
+    weekendRate: p.nightlyRate,
+    weekdayOccupancy: p.occupancyRate,
+    weekendOccupancy: p.occupancyRate,
+  }));
+
+// Gross rental revenue for each calendar month
+export const calculateMonthlyRevenue = (p: Property): number[] => {
+  if (!p.seasonality || p.seasonality.length !== 12) {
+    const flat = (p.nightlyRate * 365 * (p.occupancyRate / 100)) / 12;
+    return MONTH_LABELS.map(() => flat);
+  }
+  return p.seasonality.map((m, i) => {
+    const weekendNights = DAYS_IN_MONTH[i] * WEEKEND_SHARE;
+    const weekdayNights = DAYS_IN_MONTH[i] - weekendNights;
+    return (
+      weekdayNights * (m.weekdayOccupancy / 100) * m.weekdayRate +
+      weekendNights * (m.weekendOccupancy / 100) * m.weekendRate
+    );
+  });
+};
+
+// Booked nights in each calendar month
+const calculateMonthlyOccupiedNights = (p: Property): number[] => {
+  if (!p.seasonality || p.seasonality.length !== 12) {
+    const flat = (365 * (p.occupancyRate / 100)) / 12;
+    return MONTH_LABELS.map(() => flat);
+  }
+  return p.seasonality.map((m, i) => {
+    const weekendNights = DAYS_IN_MONTH[i] * WEEKEND_SHARE;
+    return (DAYS_IN_MONTH[i] - weekendNights) * (m.weekdayOccupancy / 100) + weekendNights * (m.weekendOccupancy / 100);
+  });
+};
+
+const calculateOccupiedNights = (p: Property): number =>
+  calculateMonthlyOccupiedNights(p).reduce((sum, n) => sum + n, 0);
+
+// Average daily rate actually earned, weighted by booked nights
+export const calculateAverageNightlyRate = (p: Property): number => {
+  if (p.units?.length) {
+    const strUnits = p.units.filter(u => u.strategy === 'str');
+    const occupancy = strUnits.reduce((sum, u) => sum + u.occupancyRate, 0);
+    return occupancy > 0 ? strUnits.reduce((sum, u) => sum + u.rate * u.occupancyRate, 0) / occupancy : p.nightlyRate;
   }
+  const nights = calculateOccupiedNights(p);
+  if (nights <= 0) return p.nightlyRate;
+  return calculateMonthlyRevenue(p).reduce((sum, m) => sum + m, 0) / nights;
+};
+
+// --- Short-Term Booking Mechanics ---
+export const DEFAULT_STR_FEES: StrFeeAssumptions = {
+  averageStayNights: 3,
+  cleaningFeePerStay: 125,
+  cleaningCostPerTurnover: 140, // cleaner plus laundry and restocking
+  platformFeePercent: 3,
+  cardFeePercent: 0,
+  lodgingTaxPercent: 10,
+};
+
+// Used when a property has no fee assumptions, so older saves keep their nightly-revenue-only numbers
+export const NO_STR_FEES: StrFeeAssumptions = {
+  averageStayNights: DEFAULT_STR_FEES.averageStayNights,
+  cleaningFeePerStay: 0,
+  cleaningCostPerTurnover: 0,
+  platformFeePercent: 0,
+  cardFeePercent: 0,
+  lodgingTaxPercent: 0,
+};
+
+// Bookings per month follow from booked nights / average stay; fees are charged per booking
+export const calculateMonthlyStrRevenue = (p: Property): StrRevenueBreakdown[] => {
+  const f = p.strFees || NO_STR_FEES;
+  const nightlyRevenues = calculateMonthlyRevenue(p);
+  return calculateMonthlyOccupiedNights(p).map((nights, i) => {
+    const bookings = nights / Math.max(f.averageStayNights, 1);
+    const nightlyRevenue = nightlyRevenues[i];
+    const cleaningFees = bookings * f.cleaningFeePerStay;
+    const grossRevenue = nightlyRevenue + cleaningFees;
+    const lodgingTax = grossRevenue * (f.lodgingTaxPercent / 100);
+    const platformFees = grossRevenue * (f.platformFeePercent / 100);
+    const cardFees = (grossRevenue + lodgingTax) * (f.cardFeePercent / 100);
+    const cleaningCosts = bookings * f.cleaningCostPerTurnover;
+    return {
+      bookings,
+      nightlyRevenue,
+      cleaningFees,
+      grossRevenue,
+      lodgingTax,
+      platformFees,
+      cardFees,
+      cleaningCosts,
+      netRevenue: grossRevenue - platformFees - cardFees - cleaningCosts,
+    };
+  });
+};
+
+const sumStrMonths = (months: StrRevenueBreakdown[], divisor = 1): StrRevenueBreakdown => {
+  const total = (key: keyof StrRevenueBreakdown) => months.reduce((sum, m) => sum + m[key], 0) / divisor;
+  return {
+    bookings: total('bookings'),
+    nightlyRevenue: total('nightlyRevenue'),
+    cleaningFees: total('cleaningFees'),
+    grossRevenue: total('grossRevenue'),
+    lodgingTax: total('lodgingTax'),
+    platformFees: total('platformFees'),
+    cardFees: total('cardFees'),
+    cleaningCosts: total('cleaningCosts'),
+    netRevenue: total('netRevenue'),
+  };
+};
+
+const averageStrMonth = (months: StrRevenueBreakdown[]) => sumStrMonths(months, months.length);
+
+// Average month of short-term bookings, summed across STR units when there is a rent roll
+const calculateStrRevenueSummary = (p: Property): StrRevenueBreakdown =>
+  p.units?.length
+    ? sumStrMonths(p.units.filter(u => u.strategy === 'str').map(u => averageStrMonth(calculateMonthlyStrRevenue(unitAsListing(p, u)))))
+    : averageStrMonth(calculateMonthlyStrRevenue(p));
+
+// Month-by-month view of revenue, expenses and cash flow (seasonal calendar only applies to STR)
+export const calculateMonthlyCashFlows = (p: Property): MonthlyCashFlow[] => {
+  const metrics = calculateMetrics(p);
+  const fixedExpenses = metrics.monthlyExpenses - metrics.monthlyVariableExpenses;
+  const months = metrics.strategy === 'str' && !p.units?.length
+    ? calculateMonthlyStrRevenue(p).map(m => ({
+        revenue: m.grossRevenue,
+        variableExpenses: m.nightlyRevenue * (p.managementFeePercent / 100) + m.platformFees + m.cardFees + m.cleaningCosts,
+      }))
+    : MONTH_LABELS.map(() => ({ revenue: metrics.monthlyIncome, variableExpenses: metrics.monthlyVariableExpenses }));
+
+  return months.map(({ revenue, variableExpenses }, month) => {
+    const operatingExpenses = fixedExpenses + variableExpenses;
+    return {
+      month,
+      revenue,
+      operatingExpenses,
+      debtService: metrics.monthlyMortgage,
+      cashFlow: revenue - operatingExpenses - metrics.monthlyMortgage,
+    };
+  });
+};
+
+// --- Acquisition Costs ---
+export const FURNISHING_TIERS = { budget: 5000, standard: 8000, premium: 12000 };
 
-  // 2. Income Calculation
-  const monthlyIncome = (p.nightlyRate * 365 * (p.occupancyRate / 100)) / 12;
+// Quick furnishing estimate: per-bedroom cost plus living/kitchen/outdoor areas (~1.5 bedrooms' worth)
+export const estimateFurnishing = (bedrooms: number, perBedroom: number): number =>
+  Math.round(perBedroom * (Math.max(bedrooms, 1) + 1.5));
 
-  // 3. Expense Calculation
-  const managementFee = monthlyIncome * (p.managementFeePercent / 100);
+export const buildDefaultAcquisitionCosts = (p: Property): AcquisitionCosts => ({
+  lenderFees: Math.round(p.price * 0.01),
+  titleEscrow: Math.round(p.price * 0.012),
+  inspection: 600,
+  pointsPercent: 0,
+  otherClosing: Math.round(p.price * 0.008),
+  rehab: [],
+  furnishing: estimateFurnishing(p.bedrooms, FURNISHING_TIERS.standard),
+  setup: 2500,
+});
+
+export const calculateAcquisitionCosts = (p: Property): AcquisitionCostSummary => {
+  const downPayment = getDownPayment(p);
+  const c = p.acquisitionCosts;
+  // Points are set per loan once advanced financing is on
+  const trancheFees = p.financing
+    ? p.financing.reduce((sum, t) => sum + getTrancheAmount(p, t) * (t.pointsPercent / 100), 0)
+    : 0;
+  if (!c) {
+    // Closing costs estimate (approx 3% of price - simplified)
+    const closingCosts = p.price * 0.03 + trancheFees;
+    return { downPayment, closingCosts, lenderFees: trancheFees, rehab: 0, furnishing: 0, total: downPayment + closingCosts };
+  }
+
+  const points = p.financing ? trancheFees : (p.price - downPayment) * (c.pointsPercent / 100);
+  const lenderFees = c.lenderFees + points;
+  const closingCosts = lenderFees + c.titleEscrow + c.inspection + c.otherClosing;
+  const rehab = c.rehab.reduce((sum, item) => sum + item.amount, 0);
+  const furnishing = c.furnishing + c.setup;
+  return { downPayment, closingCosts, lenderFees, rehab, furnishing, total: downPayment + closingCosts + rehab + furnishing };
+};
+
+// --- Multi-Unit Rent Roll ---
+export const UNIT_STRATEGY_LABELS: Record<UnitStrategy, string> = {
+  str: 'Short-Term',
+  ltr: 'Long-Term',
+  owner: 'Owner-Occupied',
+};
+
+// Seeds a unit from the single-listing inputs so switching to a rent roll keeps the numbers
+export const buildUnitFromProperty = (p: Property, index: number): RentalUnit => ({
+  id: `unit-${Date.now()}-${index}`,
+  label: `Unit ${String.fromCharCode(65 + index)}`,
+  bedrooms: p.bedrooms,
+  bathrooms: p.bathrooms,
+  strategy: 'str',
+  rate: p.nightlyRate,
+  occupancyRate: p.occupancyRate,
+  managementFeePercent: p.managementFeePercent,
+  monthlyExpenses: 0,
+});
+
+// Blank long-term unit for an added ADU / side of a duplex; contributes nothing until a rent is entered
+export const buildEmptyUnit = (index: number): RentalUnit => ({
+  id: `unit-${Date.now()}-${index}`,
+  label: `Unit ${String.fromCharCode(65 + index)}`,
+  bedrooms: 1,
+  bathrooms: 1,
+  strategy: 'ltr',
+  rate: 0,
+  occupancyRate: 95,
+  managementFeePercent: 8,
+  monthlyExpenses: 0,
+});
+
+// A short-term unit reuses the single-listing booking model at its own rate and occupancy
+const unitAsListing = (p: Property, u: RentalUnit): Property => ({
+  ...p,
+  nightlyRate: u.rate,
+  occupancyRate: u.occupancyRate,
+  seasonality: undefined,
+  units: undefined,
+});
+
+interface UnitOperating {
+  monthlyIncome: number;
+  managementFee: number;
+  variableExpenses: number;
+  monthlyExpenses: number; // unit-level only, shared costs excluded
+}
+
+const calculateUnitOperating = (p: Property, u: RentalUnit): UnitOperating => {
+  if (u.strategy === 'owner') {
+    return { monthlyIncome: 0, managementFee: 0, variableExpenses: 0, monthlyExpenses: u.monthlyExpenses };
+  }
+  if (u.strategy === 'str') {
+    const revenue = averageStrMonth(calculateMonthlyStrRevenue(unitAsListing(p, u)));
+    const managementFee = revenue.nightlyRevenue * (u.managementFeePercent / 100);
+    const variableExpenses = managementFee + revenue.platformFees + revenue.cardFees + revenue.cleaningCosts;
+    return { monthlyIncome: revenue.grossRevenue, managementFee, variableExpenses, monthlyExpenses: variableExpenses + u.monthlyExpenses };
+  }
+  const monthlyIncome = u.rate * (u.occupancyRate / 100);
+  const managementFee = monthlyIncome * (u.managementFeePercent / 100);
+  return { monthlyIncome, managementFee, variableExpenses: managementFee, monthlyExpenses: managementFee + u.monthlyExpenses };
+};
+
+// Per-unit income and NOI before shared expenses
+export const calculateRentRoll = (p: Property): UnitResult[] =>
+  (p.units || []).map(u => {
+    const op = calculateUnitOperating(p, u);
+    return { unitId: u.id, monthlyIncome: op.monthlyIncome, monthlyExpenses: op.monthlyExpenses, noi: op.monthlyIncome - op.monthlyExpenses };
+  });
+
+export const RENTAL_STRATEGIES: RentalStrategy[] = ['str', 'mtr', 'ltr'];
+
+export const STRATEGY_LABELS: Record<RentalStrategy, string> = {
+  str: 'Short-Term',
+  mtr: 'Mid-Term (30+ days)',
+  ltr: 'Long-Term Lease',
+};
+
+// Fallback lease terms when the user hasn't entered any for a strategy
+export const getLeaseAssumptions = (p: Property, strategy: LeaseStrategy): LeaseAssumptions => {
+  const saved = p.leaseStrategies?.[strategy];
+  if (saved) return saved;
+  return strategy === 'mtr'
+    ? { monthlyRent: Math.round(p.price * 0.009), vacancyPercent: 15, managementFeePercent: 15, ownerPays: ['utilities', 'snowRemoval', 'hotTubMaintenance'] }
+    : { monthlyRent: Math.round(p.price * 0.0065), vacancyPercent: 5, managementFeePercent: 8, ownerPays: [] };
+};
+
+interface OperatingResult {
+  monthlyIncome: number;
+  monthlyExpenses: number;
+  managementFee: number;
+  variableExpenses: number; // scale with booked nights / occupancy, incl. managementFee
+  occupancyPercent: number; // booked share of the year (100 - vacancy for leases)
+}
+
+// Income and operating expenses (no debt service) under a given rental strategy
+const calculateOperating = (
+  p: Property,
+  strategy: RentalStrategy,
+  strRevenue: StrRevenueBreakdown = calculateStrRevenueSummary(p)
+): OperatingResult => {
   const monthlyTax = p.propertyTax / 12;
   const monthlyInsurance = p.insurance / 12;
-  
-  const monthlyExpenses = 
-    managementFee + 
-    monthlyTax + 
-    monthlyInsurance + 
-    p.snowRemoval + 
-    (p.hotTubMaintenance || 0) +
-    p.utilities + 
-    p.maintenance + 
-    p.hoa + 
-    p.otherExpenses;
-
-  // 4. Profitability
-  const cashFlow = monthlyIncome - monthlyExpenses - monthlyMortgage;
-  const annualCashFlow = cashFlow * 12;
-  
-  // Closing costs estimate (approx 3% of price - simplified)
-  const closingCosts = p.price * 0.03; 
-  const totalInvestment = downPayment + closingCosts; // Simplified initial investment
-
-  const cashOnCashReturn = totalInvestment > 0 ? (annualCashFlow / totalInvestment) * 100 : 0;
-
-  // Cap Rate = (Net Operating Income / Current Market Value) * 100
-  // NOI = Income - Operating Expenses (Exclude Mortgage)
-  const annualNOI = (monthlyIncome - monthlyExpenses) * 12;
-  const capRate = (annualNOI / p.price) * 100;
+  const ownerExpenses = monthlyTax + monthlyInsurance + p.maintenance + p.hoa + p.otherExpenses;
+
+  // A rent roll sets the strategy per unit; shared costs stay at the property level
+  if (p.units?.length) {
+    const units = p.units.map(u => ({ unit: u, op: calculateUnitOperating(p, u) }));
+    const total = (key: keyof UnitOperating) => units.reduce((sum, { op }) => sum + op[key], 0);
+    const monthlyIncome = total('monthlyIncome');
+    const rented = units.filter(({ unit }) => unit.strategy !== 'owner');
+    return {
+      monthlyIncome,
+      managementFee: total('managementFee'),
+      variableExpenses: total('variableExpenses'),
+      // Income-weighted, so break-even occupancy applies across the rented units
+      occupancyPercent: monthlyIncome > 0
+        ? rented.reduce((sum, { unit, op }) => sum + unit.occupancyRate * op.monthlyIncome, 0) / monthlyIncome
+        : 0,
+      monthlyExpenses: total('monthlyExpenses') + ownerExpenses + p.snowRemoval + (p.hotTubMaintenance || 0) + p.utilities,
+    };
+  }
+
+  if (strategy === 'str') {
+    // Average month of the seasonal calendar when one is set
+    const managementFee = strRevenue.nightlyRevenue * (p.managementFeePercent / 100);
+    const variableExpenses = managementFee + strRevenue.platformFees + strRevenue.cardFees + strRevenue.cleaningCosts;
+    return {
+      monthlyIncome: strRevenue.grossRevenue,
+      managementFee,
+      variableExpenses,
+      occupancyPercent: (calculateOccupiedNights(p) / 365) * 100,
+      monthlyExpenses: variableExpenses + ownerExpenses + p.snowRemoval + (p.hotTubMaintenance || 0) + p.utilities,
+    };
+  }
 
+  const lease = getLeaseAssumptions(p, strategy);
+  const monthlyIncome = lease.monthlyRent * (1 - lease.vacancyPercent / 100);
+  const managementFee = monthlyIncome * (lease.managementFeePercent / 100);
+  const passThrough = lease.ownerPays.reduce((sum, key) => sum + (p[key] || 0), 0);
   return {
-    monthlyMortgage,
     monthlyIncome,
-    monthlyExpenses,
-    cashFlow,
-    cashOnCashReturn,
-    capRate,
-    totalInvestment
+    managementFee,
+    variableExpenses: managementFee,
+    occupancyPercent: 100 - lease.vacancyPercent,
+    monthlyExpenses: managementFee + ownerExpenses + passThrough,
+  };
+};
+
+// Share of current occupancy needed to cover fixed costs and debt service (income and variable costs scale with it)
+const breakEvenOccupancyShare = (op: OperatingResult, monthlyMortgage: number): number => {
+  const fixedCosts = op.monthlyExpenses - op.variableExpenses + monthlyMortgage;
+  const contribution = op.monthlyIncome - op.variableExpenses;
+  return contribution > 0 ? fixedCosts / contribution : Infinity;
+};
+
+// Share of the current nightly rates at which STR cash flow is zero. Cash flow is linear in the rate
+// (cleaning fees and turnovers don't move), so two points pin it down.
+const breakEvenRateShare = (p: Property, monthlyMortgage: number): number => {
+  const cashFlowAt = (factor: number) => {
+    const op = calculateOperating({
+      ...p,
+      nightlyRate: p.nightlyRate * factor,
+      seasonality: p.seasonality?.map(m => ({ ...m, weekdayRate: m.weekdayRate * factor, weekendRate: m.weekendRate * factor })),
+      units: p.units?.map(u => u.strategy === 'str' ? { ...u, rate: u.rate * factor } : u),
+    }, 'str');
+    return op.monthlyIncome - op.monthlyExpenses - monthlyMortgage;
+  };
+  const atZero = cashFlowAt(0);
+  const slope = cashFlowAt(1) - atZero;
+  return slope > 0 ? Math.max(0, -atZero / slope) : Infinity;
+};
+
+export const calculateMetrics = (p: Property): CalculationResult => {
+  // 1. Mortgage Calculation (all loan tranches, first-month payment incl. PMI)
+  const monthlyMortgage = calculateInitialDebtService(p);
+
+  // Cash to close plus rehab and furnishing
+  const totalInvestment = calculateAcquisitionCosts(p).total;
+
+  // 2. Income & Expenses for every strategy, so they can be compared side by side
+  const strRevenue = calculateStrRevenueSummary(p);
+  const operating = {} as Record<RentalStrategy, OperatingResult>;
+  const strategies = {} as Record<RentalStrategy, StrategyResult>;
+  RENTAL_STRATEGIES.forEach(s => {
+    const op = calculateOperating(p, s, strRevenue);
+    const cashFlow = op.monthlyIncome - op.monthlyExpenses - monthlyMortgage;
+    operating[s] = op;
+    strategies[s] = {
+      monthlyIncome: op.monthlyIncome,
+      monthlyExpenses: op.monthlyExpenses,
+      cashFlow,
+      cashOnCashReturn: totalInvestment > 0 ? (cashFlow * 12 / totalInvestment) * 100 : 0,
+      // Cap Rate = (Net Operating Income / Current Market Value) * 100
+      // NOI = Income - Operating Expenses (Exclude Mortgage)
+      capRate: ((op.monthlyIncome - op.monthlyExpenses) * 12 / p.price) * 100,
+    };
+  });
+
+  const strategy = p.rentalStrategy || 'str';
+  const bestStrategy = RENTAL_STRATEGIES.reduce((best, s) =>
+    strategies[s].cashFlow > strategies[best].cashFlow ? s : best
+  );
+
+  // 3. Profitability of the active strategy
+  const active = strategies[strategy];
+
+  // 4. Underwriting screens
+  const dscr = monthlyMortgage > 0 ? (active.monthlyIncome - active.monthlyExpenses) / monthlyMortgage : Infinity;
+  const grossIncome = active.monthlyIncome;
+
+  // 5. Lender checks
+  const financingWarnings: string[] = [];
+  getLoanTranches(p).forEach(t => {
+    if (t.type === 'dscr' && t.minDscr && dscr < t.minDscr) {
+      financingWarnings.push(`${t.label}: DSCR ${dscr.toFixed(2)} is below the lender minimum of ${t.minDscr.toFixed(2)}.`);
+    }
+    if (t.balloonYears && t.balloonYears < t.termYears) {
+      financingWarnings.push(`${t.label}: balloon of the remaining balance is due in year ${t.balloonYears}.`);
+    }
+    if (t.type === 'arm' && t.armResetRate !== undefined && t.armResetRate > t.interestRate) {
+      financingWarnings.push(`${t.label}: rate resets to ${t.armResetRate}% after year ${t.armFixedYears ?? 0}.`);
+    }
+  });
+
+  return {
+    monthlyMortgage,
+    monthlyIncome: active.monthlyIncome,
+    monthlyExpenses: active.monthlyExpenses,
+    cashFlow: active.cashFlow,
+    cashOnCashReturn: active.cashOnCashReturn,
+    capRate: active.capRate,
+    totalInvestment,
+    monthlyManagementFee: operating[strategy].managementFee,
+    monthlyVariableExpenses: operating[strategy].variableExpenses,
+    strRevenue,
+    occupancyRate: operating[strategy].occupancyPercent,
+    strategy,
+    strategies,
+    bestStrategy,
+    financingWarnings,
+    dscr,
+    breakEvenOccupancy: operating[strategy].occupancyPercent * breakEvenOccupancyShare(operating[strategy], monthlyMortgage),
+    breakEvenNightlyRate: calculateAverageNightlyRate(p) * breakEvenRateShare(p, monthlyMortgage),
+    grossRentMultiplier: grossIncome > 0 ? p.price / (grossIncome * 12) : Infinity,
+    operatingExpenseRatio: grossIncome > 0 ? (active.monthlyExpenses / grossIncome) * 100 : 0,
+    passesOnePercentRule: grossIncome >= p.price * 0.01,
+    passesFiftyPercentRule: grossIncome * 0.5 - monthlyMortgage >= 0,
+  };
+};
+
+// --- Underwriting Checklist ---
+export const UNDERWRITING_TARGETS = {
+  minDscr: 1.25,
+  maxBreakEvenOccupancy: 85,
+  maxGrossRentMultiplier: 12,
+  maxOperatingExpenseRatio: 50,
+};
+
+const formatRatio = (v: number, digits: number, suffix = '') => isFinite(v) ? `${v.toFixed(digits)}${suffix}` : 'N/A';
+
+// Pass/fail screens an investment committee or lender runs before anything else
+export const buildUnderwritingChecklist = (p: Property, m: CalculationResult = calculateMetrics(p)): UnderwritingCheck[] => {
+  const t = UNDERWRITING_TARGETS;
+  const currentRate = calculateAverageNightlyRate(p);
+  const maxOccupancy = Math.min(t.maxBreakEvenOccupancy, m.occupancyRate);
+  // A rent roll without short-term units has no nightly rate to break even on
+  const hasNightlyRate = !p.units?.length || p.units.some(u => u.strategy === 'str');
+  return [
+    {
+      label: 'Debt Service Coverage',
+      shortLabel: 'DSCR',
+      value: m.monthlyMortgage > 0 ? formatRatio(m.dscr, 2, 'x') : 'No debt',
+      requirement: `≥ ${t.minDscr.toFixed(2)}x`,
+      passed: m.dscr >= t.minDscr,
+    },
+    {
+      label: 'Break-Even Occupancy',
+      shortLabel: 'BEO',
+      value: formatRatio(m.breakEvenOccupancy, 1, '%'),
+      requirement: `≤ ${maxOccupancy.toFixed(0)}%`,
+      passed: m.breakEvenOccupancy <= maxOccupancy,
+    },
+    ...(hasNightlyRate ? [{
+      label: 'Break-Even Nightly Rate',
+      shortLabel: 'BE ADR',
+      value: isFinite(m.breakEvenNightlyRate) ? formatCurrency(m.breakEvenNightlyRate) : 'N/A',
+      requirement: `≤ ${formatCurrency(currentRate)} current ADR`,
+      passed: m.breakEvenNightlyRate <= currentRate,
+    }] : []),
+    {
+      label: 'Gross Rent Multiplier',
+      shortLabel: 'GRM',
+      value: formatRatio(m.grossRentMultiplier, 1),
+      requirement: `≤ ${t.maxGrossRentMultiplier}`,
+      passed: m.grossRentMultiplier <= t.maxGrossRentMultiplier,
+    },
+    {
+      label: 'Operating Expense Ratio',
+      shortLabel: 'OpEx',
+      value: formatRatio(m.operatingExpenseRatio, 1, '%'),
+      requirement: `≤ ${t.maxOperatingExpenseRatio}%`,
+      passed: m.operatingExpenseRatio <= t.maxOperatingExpenseRatio,
+    },
+    {
+      label: '1% Rule',
+      shortLabel: '1%',
+      value: `${formatCurrency(m.monthlyIncome)}/mo`,
+      requirement: `≥ ${formatCurrency(p.price * 0.01)}/mo`,
+      passed: m.passesOnePercentRule,
+    },
+    {
+      label: '50% Rule',
+      shortLabel: '50%',
+      value: `${formatCurrency(m.monthlyIncome * 0.5 - m.monthlyMortgage)}/mo`,
+      requirement: 'Cash flows with 50% expenses',
+      passed: m.passesFiftyPercentRule,
+    },
+  ];
+};
+
+// --- Tax & Depreciation ---
+export const DEFAULT_TAX: TaxAssumptions = {
+  landValuePercent: 20,
+  marginalTaxRate: 32,
+  costSegregation: false,
+  shortLifePercent: 25,
+  bonusDepreciationPercent: 100,
+};
+
+const RESIDENTIAL_LIFE_YEARS = 27.5;
+const SHORT_LIFE_YEARS = 7; // blended life of the 5/7/15-yr buckets a cost seg study produces
+
+// Depreciation taken in each of the first `years` years (straight-line, plus cost seg bonus in year 1)
+export const calculateDepreciationSchedule = (p: Property, years: number): number[] => {
+  const t = p.tax || DEFAULT_TAX;
+  const buildingBasis = p.price * (1 - t.landValuePercent / 100);
+  const shortLife = t.costSegregation ? buildingBasis * (t.shortLifePercent / 100) : 0;
+  const bonus = shortLife * (t.bonusDepreciationPercent / 100);
+  const longLife = buildingBasis - shortLife;
+
+  return Array.from({ length: years }, (_, i) => {
+    const year = i + 1;
+    const longPortion = Math.min(longLife / RESIDENTIAL_LIFE_YEARS, Math.max(0, longLife - (longLife / RESIDENTIAL_LIFE_YEARS) * i));
+    const shortPortion = year <= SHORT_LIFE_YEARS ? (shortLife - bonus) / SHORT_LIFE_YEARS : 0;
+    return longPortion + shortPortion + (year === 1 ? bonus : 0);
+  });
+};
+
+// Year-1 after-tax view. Assumes the losses can offset other income (e.g. STR material participation).
+export const calculateTaxImpact = (p: Property, metrics: CalculationResult = calculateMetrics(p)): TaxResult => {
+  const t = p.tax || DEFAULT_TAX;
+  const buildingBasis = p.price * (1 - t.landValuePercent / 100);
+  const [annualDepreciation] = calculateDepreciationSchedule(p, 1);
+
+  // Interest portion of the first 12 payments
+  const mortgageInterest = buildAmortizationSchedule(p).rows
+    .slice(0, 12)
+    .reduce((sum, r) => sum + r.interest, 0);
+
+  const annualNOI = (metrics.monthlyIncome - metrics.monthlyExpenses) * 12;
+  const taxableIncome = annualNOI - mortgageInterest - annualDepreciation;
+  const taxSavings = -taxableIncome * (t.marginalTaxRate / 100);
+  const afterTaxCashFlow = metrics.cashFlow * 12 + taxSavings;
+
+  return {
+    buildingBasis,
+    annualDepreciation,
+    mortgageInterest,
+    taxableIncome,
+    taxSavings,
+    afterTaxCashFlow,
+    afterTaxReturn: metrics.totalInvestment > 0 ? (afterTaxCashFlow / metrics.totalInvestment) * 100 : 0,
+  };
+};
+
+// --- Max Offer Solver ---
+export const OFFER_TARGET_LABELS: Record<OfferTargetMetric, string> = {
+  cashFlow: 'Min Monthly Cash Flow',
+  cashOnCash: 'Min Cash on Cash',
+  capRate: 'Min Cap Rate',
+  dscr: 'Min DSCR',
+};
+
+export const DEFAULT_OFFER_TARGET: OfferTarget = { metric: 'cashOnCash', value: 8 };
+
+const readTargetMetric = (p: Property, metric: OfferTargetMetric): number => {
+  const m = calculateMetrics(p);
+  switch (metric) {
+    case 'cashFlow': return m.cashFlow;
+    case 'cashOnCash': return m.cashOnCashReturn;
+    case 'capRate': return m.capRate;
+    case 'dscr': return m.dscr;
+  }
+};
+
+// Highest purchase price (to the nearest $1,000) that still meets the target, all other inputs held fixed.
+// Every target metric falls as the price rises, so a bisection over price converges.
+export const solveMaxOffer = (p: Property, target: OfferTarget = p.offerTarget || DEFAULT_OFFER_TARGET): OfferSolution => {
+  const meets = (price: number) => readTargetMetric({ ...p, price }, target.metric) >= target.value;
+  const noOffer = { target, maxPrice: null, metricAtMaxPrice: null, discountToList: null };
+
+  let low = 1000;
+  if (!meets(low)) return { ...noOffer, unconstrained: false };
+  // A metric with no finite value (DSCR without debt) never falls as the price rises
+  if (!isFinite(readTargetMetric({ ...p, price: low }, target.metric))) return { ...noOffer, unconstrained: true };
+
+  const cap = p.price * 20 + 1e7;
+  let high = Math.max(p.price, 100000) * 2;
+  while (meets(high) && high < cap) high *= 2;
+  if (meets(high)) return { ...noOffer, unconstrained: true };
+
+  for (let i = 0; i < 60 && high - low > 500; i++) {
+    const mid = (low + high) / 2;
+    if (meets(mid)) low = mid;
+    else high = mid;
+  }
+
+  const maxPrice = Math.floor(low / 1000) * 1000;
+  return {
+    target,
+    maxPrice,
+    metricAtMaxPrice: readTargetMetric({ ...p, price: maxPrice }, target.metric),
+    discountToList: p.price > 0 ? ((p.price - maxPrice) / p.price) * 100 : null,
+    unconstrained: false,
   };
 };
 
@@ -0,0 +1,115 @@
+import { Property, CalculationResult } from '../types';
+import { calculateMetrics, formatCurrency, formatPercent, RENTAL_STRATEGIES, STRATEGY_LABELS } from './calculations';
+import { toCsv } from './csv';
+
+export type ComparisonKind = 'currency' | 'percent' | 'ratio' | 'number' | 'text' | 'pass';
+
+export interface ComparisonRow {
+  section: string;
+  label: string;
+  kind: ComparisonKind;
+  values: (number | string | boolean)[];
+  better?: 'higher' | 'lower'; // rows without a direction aren't ranked
+}
+
+interface RowSpec {
+  section: string;
+  label: string;
+  kind: ComparisonKind;
+  better?: 'higher' | 'lower';
+  value: (p: Property, m: CalculationResult) => number | string | boolean;
+}
+
+const ROWS: RowSpec[] = [
+  // Specs
+  { section: 'Specs', label: 'Price', kind: 'currency', better: 'lower', value: p => p.price },
+  { section: 'Specs', label: 'Bedrooms', kind: 'number', better: 'higher', value: p => p.bedrooms },
+  { section: 'Specs', label: 'Bathrooms', kind: 'number', better: 'higher', value: p => p.bathrooms },
+  { section: 'Specs', label: 'Sq Ft', kind: 'number', better: 'higher', value: p => p.sqft },
+  { section: 'Specs', label: 'Price / Sq Ft', kind: 'currency', better: 'lower', value: p => p.sqft > 0 ? p.price / p.sqft : 0 },
+  { section: 'Specs', label: 'Units', kind: 'number', value: p => p.units?.length || 1 },
+  { section: 'Specs', label: 'Nightly Rate', kind: 'currency', better: 'higher', value: p => p.nightlyRate },
+  { section: 'Specs', label: 'Occupancy', kind: 'percent', better: 'higher', value: p => p.occupancyRate },
+  // Returns
+  { section: 'Returns', label: 'Monthly Income', kind: 'currency', better: 'higher', value: (_, m) => m.monthlyIncome },
+  { section: 'Returns', label: 'Monthly Expenses', kind: 'currency', better: 'lower', value: (_, m) => m.monthlyExpenses },
+  { section: 'Returns', label: 'Management Fee', kind: 'currency', better: 'lower', value: (_, m) => m.monthlyManagementFee },
+  { section: 'Returns', label: 'Variable Expenses', kind: 'currency', better: 'lower', value: (_, m) => m.monthlyVariableExpenses },
+  { section: 'Returns', label: 'Mortgage', kind: 'currency', better: 'lower', value: (_, m) => m.monthlyMortgage },
+  { section: 'Returns', label: 'Cash Flow', kind: 'currency', better: 'higher', value: (_, m) => m.cashFlow },
+  { section: 'Returns', label: 'Cash on Cash', kind: 'percent', better: 'higher', value: (_, m) => m.cashOnCashReturn },
+  { section: 'Returns', label: 'Cap Rate', kind: 'percent', better: 'higher', value: (_, m) => m.capRate },
+  { section: 'Returns', label: 'Total Investment', kind: 'currency', better: 'lower', value: (_, m) => m.totalInvestment },
+  { section: 'Returns', label: 'Active Strategy', kind: 'text', value: (_, m) => STRATEGY_LABELS[m.strategy] },
+  { section: 'Returns', label: 'Best Strategy', kind: 'text', value: (_, m) => STRATEGY_LABELS[m.bestStrategy] },
+  ...RENTAL_STRATEGIES.map((s): RowSpec => ({
+    section: 'Returns', label: `${STRATEGY_LABELS[s]} Cash Flow`, kind: 'currency', better: 'higher', value: (_, m) => m.strategies[s].cashFlow,
+  })),
+  { section: 'Returns', label: 'Net Booking Revenue', kind: 'currency', better: 'higher', value: (_, m) => m.strRevenue.netRevenue },
+  // Underwriting
+  { section: 'Underwriting', label: 'DSCR', kind: 'ratio', better: 'higher', value: (_, m) => m.dscr },
+  { section: 'Underwriting', label: 'Occupancy (Active Strategy)', kind: 'percent', better: 'higher', value: (_, m) => m.occupancyRate },
+  { section: 'Underwriting', label: 'Break-Even Occupancy', kind: 'percent', better: 'lower', value: (_, m) => m.breakEvenOccupancy },
+  { section: 'Underwriting', label: 'Break-Even Nightly Rate', kind: 'currency', better: 'lower', value: (_, m) => m.breakEvenNightlyRate },
+  { section: 'Underwriting', label: 'Gross Rent Multiplier', kind: 'ratio', better: 'lower', value: (_, m) => m.grossRentMultiplier },
+  { section: 'Underwriting', label: 'Operating Expense Ratio', kind: 'percent', better: 'lower', value: (_, m) => m.operatingExpenseRatio },
+  { section: 'Underwriting', label: '1% Rule', kind: 'pass', value: (_, m) => m.passesOnePercentRule },
+  { section: 'Underwriting', label: '50% Rule', kind: 'pass', value: (_, m) => m.passesFiftyPercentRule },
+  { section: 'Underwriting', label: 'Financing Warnings', kind: 'number', better: 'lower', value: (_, m) => m.financingWarnings.length },
+  // Expenses
+  { section: 'Expenses', label: 'Property Tax (Yr)', kind: 'currency', better: 'lower', value: p => p.propertyTax },
+  { section: 'Expenses', label: 'Insurance (Yr)', kind: 'currency', better: 'lower', value: p => p.insurance },
+  { section: 'Expenses', label: 'HOA (Mo)', kind: 'currency', better: 'lower', value: p => p.hoa },
+  { section: 'Expenses', label: 'Utilities (Mo)', kind: 'currency', better: 'lower', value: p => p.utilities },
+  { section: 'Expenses', label: 'Maintenance (Mo)', kind: 'currency', better: 'lower', value: p => p.maintenance },
+  { section: 'Expenses', label: 'Snow Removal (Mo)', kind: 'currency', better: 'lower', value: p => p.snowRemoval },
+  { section: 'Expenses', label: 'Hot Tub (Mo)', kind: 'currency', better: 'lower', value: p => p.hotTubMaintenance },
+  { section: 'Expenses', label: 'Other (Mo)', kind: 'currency', better: 'lower', value: p => p.otherExpenses },
+  { section: 'Expenses', label: 'Mgmt Fee', kind: 'percent', better: 'lower', value: p => p.managementFeePercent },
+  // AI
+  { section: 'AI Analysis', label: 'Fair Offer', kind: 'text', value: p => p.fairOfferRecommendation || '' },
+  { section: 'AI Analysis', label: 'Description', kind: 'text', value: p => p.aiDescription || '' },
+];
+
+export const buildComparison = (properties: Property[]): ComparisonRow[] => {
+  const metrics = properties.map(p => calculateMetrics(p));
+  return ROWS.map(({ value, ...row }) => ({ ...row, values: properties.map((p, i) => value(p, metrics[i])) }));
+};
+
+export const formatComparisonValue = (row: ComparisonRow, v: number | string | boolean): string => {
+  if (typeof v === 'boolean') return v ? 'Pass' : 'Fail';
+  if (typeof v === 'string') return v;
+  if (!isFinite(v)) return 'N/A';
+  switch (row.kind) {
+    case 'currency': return formatCurrency(v);
+    case 'percent': return formatPercent(v);
+    case 'ratio': return v.toFixed(2);
+    default: return v.toLocaleString();
+  }
+};
+
+// Columns holding the best value of a ranked row; passes count as best for pass/fail rows
+export const getBestIndexes = (row: ComparisonRow): number[] => {
+  if (row.kind === 'pass') {
+    const passed = row.values.flatMap((v, i) => (v === true ? [i] : []));
+    return passed.length < row.values.length ? passed : [];
+  }
+  if (!row.better) return [];
+  const numbers = row.values.map(v => (typeof v === 'number' && isFinite(v) ? v : null));
+  const valid = numbers.filter((v): v is number => v !== null);
+  if (valid.length < 2) return [];
+  const best = row.better === 'higher' ? Math.max(...valid) : Math.min(...valid);
+  if (valid.every(v => v === best)) return [];
+  return numbers.flatMap((v, i) => (v === best ? [i] : []));
+};
+
+export const rowDiffers = (row: ComparisonRow): boolean => {
+  const shown = row.values.map(v => formatComparisonValue(row, v));
+  return shown.some(v => v !== shown[0]);
+};
+
+export const comparisonToCsv = (properties: Property[], rows: ComparisonRow[]): string =>
+  toCsv([
+    ['Section', 'Metric', ...properties.map(p => p.address)],
+    ...rows.map(row => [row.section, row.label, ...row.values.map(v => formatComparisonValue(row, v))]),
+  ]);
@@ -0,0 +1,89 @@
+import { Property, DispositionAssumptions, DispositionResult } from '../types';
+import { calculateAcquisitionCosts, calculateDepreciationSchedule } from './calculations';
+import { buildProjection, DEFAULT_PROJECTION } from './projections';
+
+export const buildDefaultDisposition = (p: Property): DispositionAssumptions => {
+  const projection = p.projection || DEFAULT_PROJECTION;
+  return {
+    saleYear: projection.holdYears,
+    valuation: 'appreciation',
+    salePrice: Math.round(p.price * Math.pow(1 + projection.appreciationRate / 100, projection.holdYears)),
+    exitCapRate: 6,
+    sellingCostPercent: projection.sellingCostPercent,
+    capitalGainsRate: 20,
+    recaptureRate: 25,
+    exchange1031: false,
+    replacementLtv: 75,
+    replacementCapRate: 6,
+  };
+};
+
+// What the investor walks away with after selling in `saleYear`, with an optional 1031 exchange
+export const calculateDisposition = (
+  p: Property,
+  d: DispositionAssumptions = p.disposition || buildDefaultDisposition(p)
+): DispositionResult => {
+  const saleYear = Math.max(1, Math.round(d.saleYear));
+  const assumptions = { ...(p.projection || DEFAULT_PROJECTION), holdYears: saleYear };
+  const projection = buildProjection(p, assumptions);
+  const exitYear = projection.years[saleYear - 1];
+
+  const salePrice =
+    d.valuation === 'salePrice' ? d.salePrice
+    : d.valuation === 'capRate' && d.exitCapRate > 0
+      ? (exitYear.noi * (1 + assumptions.rentGrowthRate / 100)) / (d.exitCapRate / 100) // forward NOI
+      : exitYear.propertyValue;
+
+  const sellingCosts = salePrice * (d.sellingCostPercent / 100);
+  const loanPayoff = exitYear.loanBalance;
+  const netSaleProceeds = salePrice - sellingCosts - loanPayoff;
+
+  // Basis: price plus capitalized closing costs and rehab, less depreciation taken. Lender fees and
+  // points are financing costs amortized over the loan, not part of the property's basis
+  const acquisition = calculateAcquisitionCosts(p);
+  const accumulatedDepreciation = calculateDepreciationSchedule(p, saleYear).reduce((sum, v) => sum + v, 0);
+  const adjustedBasis = p.price + acquisition.closingCosts - acquisition.lenderFees + acquisition.rehab - accumulatedDepreciation;
+
+  const totalGain = salePrice - sellingCosts - adjustedBasis;
+  const recapturedGain = Math.max(0, Math.min(accumulatedDepreciation, totalGain));
+  const capitalGain = Math.max(0, totalGain - recapturedGain);
+  const depreciationRecaptureTax = recapturedGain * (d.recaptureRate / 100);
+  const capitalGainsTax = capitalGain * (d.capitalGainsRate / 100);
+  const totalTax = depreciationRecaptureTax + capitalGainsTax;
+
+  const exchange = d.exchange1031
+    ? (() => {
+        // All sale equity rolls into the replacement, so no tax is due now
+        const equityRolled = Math.max(netSaleProceeds, 0);
+        const replacementPrice = d.replacementLtv < 100 ? equityRolled / (1 - d.replacementLtv / 100) : 0;
+        return {
+          equityRolled,
+          taxDeferred: totalTax,
+          replacementPrice,
+          replacementLoan: replacementPrice - equityRolled,
+          replacementNOI: replacementPrice * (d.replacementCapRate / 100),
+        };
+      })()
+    : null;
+
+  const afterTaxProceeds = exchange ? netSaleProceeds : netSaleProceeds - totalTax;
+  const cumulativeCashFlow = exitYear.cumulativeCashFlow;
+
+  return {
+    saleYear,
+    salePrice,
+    sellingCosts,
+    loanPayoff,
+    netSaleProceeds,
+    adjustedBasis,
+    accumulatedDepreciation,
+    totalGain,
+    depreciationRecaptureTax,
+    capitalGainsTax,
+    totalTax,
+    afterTaxProceeds,
+    cumulativeCashFlow,
+    equityMultiple: projection.initialInvestment > 0 ? (cumulativeCashFlow + afterTaxProceeds) / projection.initialInvestment : 0,
+    exchange,
+  };
+};
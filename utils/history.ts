@@ -0,0 +1,66 @@
+import { Property } from '../types';
+import { getActiveScenario } from './scenarios';
+
+// Per-property undo stack. `past` holds snapshots from before each step, newest last.
+export interface EditHistory {
+  past: Property[];
+  future: Property[];
+  lastFields: string; // fields touched by the latest step, used to group slider drags
+  lastEditAt: number;
+}
+
+const HISTORY_LIMIT = 100;
+// Consecutive edits to the same fields within this window are one step (a slider drag fires
+// an update per pixel); a pause or an edit to anything else starts a new step
+const GROUP_WINDOW_MS = 1000;
+
+export const EMPTY_HISTORY: EditHistory = { past: [], future: [], lastFields: '', lastEditAt: 0 };
+
+const changedKeys = <T extends object>(previous: T, next: T): string =>
+  Array.from(new Set([...Object.keys(previous), ...Object.keys(next)] as (keyof T)[]))
+    .filter(key => previous[key] !== next[key])
+    .map(String)
+    .sort()
+    .join(',');
+
+// With a scenario active every input edit lands in its overrides, so the scenario's own
+// override keys tell a slider drag apart from switching to another input
+const changedFields = (previous: Property, next: Property): string => {
+  const fields = changedKeys(previous, next);
+  if (fields !== 'scenarios') return fields;
+  const before = getActiveScenario(previous);
+  const after = getActiveScenario(next);
+  if (!before || !after || before.id !== after.id) return fields;
+  const overrides = changedKeys(before.overrides, after.overrides);
+  return overrides ? `scenarios:${overrides}` : fields;
+};
+
+// Records `previous` as an undo step before `next` replaces it
+export const recordEdit = (history: EditHistory, previous: Property, next: Property, now: number): EditHistory => {
+  const fields = changedFields(previous, next);
+  if (!fields) return history;
+  const continuesStep = history.past.length > 0 && fields === history.lastFields && now - history.lastEditAt < GROUP_WINDOW_MS;
+  return {
+    past: continuesStep ? history.past : [...history.past, previous].slice(-HISTORY_LIMIT),
+    future: [],
+    lastFields: fields,
+    lastEditAt: now,
+  };
+};
+
+// Returns the property to restore and the updated history, or null when there's nothing to undo
+export const undoEdit = (history: EditHistory, current: Property): { property: Property; history: EditHistory } | null => {
+  if (history.past.length === 0) return null;
+  return {
+    property: history.past[history.past.length - 1],
+    history: { past: history.past.slice(0, -1), future: [current, ...history.future], lastFields: '', lastEditAt: 0 },
+  };
+};
+
+export const redoEdit = (history: EditHistory, current: Property): { property: Property; history: EditHistory } | null => {
+  if (history.future.length === 0) return null;
+  return {
+    property: history.future[0],
+    history: { past: [...history.past, current], future: history.future.slice(1), lastFields: '', lastEditAt: 0 },
+  };
+};
@@ -0,0 +1,373 @@
+import { MemoBranding, Property, TenantPayableExpense } from '../types';
+import {
+  calculateMetrics,
+  calculateTaxImpact,
+  formatCurrency,
+  formatPercent,
+  getLeaseAssumptions,
+  STRATEGY_LABELS,
+} from './calculations';
+import { getLoanTranches } from './amortization';
+import { PROPERTY_STATUS_LABELS } from './portfolio';
+import { getActiveScenario } from './scenarios';
+import { buildPdf, PAGE_HEIGHT, PAGE_WIDTH, PDF_MIME_TYPE, PdfFont, PdfImage, PdfPage, textWidth, wrapText } from './pdf';
+import { downloadFile, toFileName } from './csv';
+
+// Investor memo: a paginated PDF summary of one property for partners and lenders
+
+const MARGIN = 48;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const CONTENT_TOP = 84;
+const CONTENT_BOTTOM = PAGE_HEIGHT - 60;
+const COVER_HEIGHT = 290;
+const LOGO_HEIGHT = 24;
+
+// Tailwind colors used by the app, so the memo matches the screen
+const COLORS = {
+  text: '#1e293b',
+  muted: '#64748b',
+  faint: '#94a3b8',
+  border: '#e2e8f0',
+  panel: '#f8fafc',
+  accent: '#4f46e5',
+  positive: '#059669',
+  negative: '#dc2626',
+  blue: '#2563eb',
+  purple: '#9333ea',
+  neutral: '#475569',
+};
+
+export interface MemoImages {
+  cover?: PdfImage | null; // already cropped to the cover frame
+  logo?: PdfImage | null;
+}
+
+// AI text comes back as light markdown; the memo prints it as plain paragraphs
+const plainText = (text: string) =>
+  text
+    .replace(/\*\*(.+?)\*\*/g, '$1')
+    .replace(/^#+\s*/gm, '')
+    .replace(/^\s*[*-]\s+/gm, '• ');
+
+const signedColor = (value: number) => value > 0 ? COLORS.positive : COLORS.negative;
+
+export const buildInvestorMemo = (p: Property, branding: MemoBranding, images: MemoImages = {}): PdfPage[] => {
+  const m = calculateMetrics(p);
+  const taxImpact = calculateTaxImpact(p, m);
+  const pages: PdfPage[] = [];
+  let page: PdfPage = { ops: [] };
+  let y = CONTENT_TOP;
+
+  const text = (x: number, baseline: number, value: string, size: number, font: PdfFont = 'regular', color = COLORS.text) =>
+    page.ops.push({ type: 'text', x, y: baseline, text: value, size, font, color });
+  const rightText = (right: number, baseline: number, value: string, size: number, font: PdfFont = 'regular', color = COLORS.text) =>
+    text(right - textWidth(value, size, font), baseline, value, size, font, color);
+
+  const newPage = () => {
+    page = { ops: [] };
+    pages.push(page);
+    y = CONTENT_TOP;
+
+    let nameX = MARGIN;
+    if (images.logo) {
+      const width = Math.min((images.logo.width / images.logo.height) * LOGO_HEIGHT, 120);
+      page.ops.push({ type: 'image', image: images.logo, x: MARGIN, y: 30, width, height: LOGO_HEIGHT });
+      nameX += width + 10;
+    }
+    if (branding.firmName) text(nameX, 47, branding.firmName, 12, 'bold');
+    rightText(PAGE_WIDTH - MARGIN, 47, 'INVESTOR MEMO', 9, 'bold', COLORS.muted);
+    page.ops.push({ type: 'line', x1: MARGIN, y1: 62, x2: PAGE_WIDTH - MARGIN, y2: 62, color: COLORS.border });
+  };
+
+  // Starts a new page unless `height` more points fit on this one
+  const ensure = (height: number) => {
+    if (y + height > CONTENT_BOTTOM) newPage();
+  };
+
+  const sectionTitle = (title: string) => {
+    ensure(60); // keep the title with at least a couple of lines of its section
+    y += 10;
+    text(MARGIN, y + 12, title, 13, 'bold');
+    page.ops.push({ type: 'line', x1: MARGIN, y1: y + 19, x2: PAGE_WIDTH - MARGIN, y2: y + 19, color: COLORS.accent, width: 1 });
+    y += 32;
+  };
+
+  const paragraph = (value: string, size = 10, color = COLORS.text, font: PdfFont = 'regular', spaceAfter = 6) => {
+    const lineHeight = size * 1.45;
+    wrapText(value, size, CONTENT_WIDTH, font).forEach(line => {
+      ensure(lineHeight);
+      if (line) text(MARGIN, y + size, line, size, font, color);
+      y += lineHeight;
+    });
+    y += spaceAfter;
+  };
+
+  // Rows of [label, value]; the first column is left-aligned, the rest right-aligned
+  const table = (headers: string[], rows: string[][], widths: number[], options: { boldLast?: boolean } = {}) => {
+    const rowHeight = 18;
+    const drawHeader = () => {
+      page.ops.push({ type: 'rect', x: MARGIN, y, width: CONTENT_WIDTH, height: rowHeight, fill: '#f1f5f9' });
+      let x = MARGIN;
+      headers.forEach((h, c) => {
+        if (c === 0) text(x + 6, y + 12, h.toUpperCase(), 7.5, 'bold', COLORS.muted);
+        else rightText(x + widths[c] - 6, y + 12, h.toUpperCase(), 7.5, 'bold', COLORS.muted);
+        x += widths[c];
+      });
+      y += rowHeight;
+    };
+    ensure(rowHeight * 3);
+    drawHeader();
+    rows.forEach((row, r) => {
+      if (y + rowHeight > CONTENT_BOTTOM) {
+        newPage();
+        drawHeader();
+      }
+      const bold = options.boldLast && r === rows.length - 1;
+      if (bold) page.ops.push({ type: 'line', x1: MARGIN, y1: y, x2: PAGE_WIDTH - MARGIN, y2: y, color: COLORS.faint });
+      let x = MARGIN;
+      row.forEach((cell, c) => {
+        if (c === 0) text(x + 6, y + 12, cell, 9, bold ? 'bold' : 'regular');
+        else rightText(x + widths[c] - 6, y + 12, cell, 9, bold ? 'bold' : 'regular');
+        x += widths[c];
+      });
+      page.ops.push({ type: 'line', x1: MARGIN, y1: y + rowHeight, x2: PAGE_WIDTH - MARGIN, y2: y + rowHeight, color: COLORS.border, width: 0.5 });
+      y += rowHeight;
+    });
+    y += 10;
+  };
+
+  const tiles = (items: { label: string; value: string; color: string }[], perRow: number, height = 46) => {
+    const gap = 8;
+    const width = (CONTENT_WIDTH - gap * (perRow - 1)) / perRow;
+    for (let i = 0; i < items.length; i += perRow) {
+      ensure(height + gap);
+      items.slice(i, i + perRow).forEach((item, c) => {
+        const x = MARGIN + c * (width + gap);
+        page.ops.push({ type: 'rect', x, y, width, height, fill: COLORS.panel, stroke: COLORS.border });
+        text(x + 8, y + 15, item.label.toUpperCase(), 7, 'bold', COLORS.muted);
+        text(x + 8, y + height - 12, item.value, height > 46 ? 18 : 14, 'bold', item.color);
+      });
+      y += height + gap;
+    }
+    y += 4;
+  };
+
+  // --- Cover ---
+  newPage();
+  wrapText(p.address, 20, CONTENT_WIDTH, 'bold').forEach(line => {
+    text(MARGIN, y + 20, line, 20, 'bold');
+    y += 26;
+  });
+  const scenario = getActiveScenario(p);
+  const subtitle = [
+    formatCurrency(p.price),
+    `${p.bedrooms} bd`,
+    `${p.bathrooms} ba`,
+    `${p.sqft.toLocaleString('en-US')} sq ft`,
+    PROPERTY_STATUS_LABELS[p.status || 'prospect'],
+    ...(scenario ? [`Scenario: ${scenario.name}`] : []),
+  ].join('  ·  ');
+  text(MARGIN, y + 12, subtitle, 10.5, 'regular', COLORS.muted);
+  y += 26;
+
+  if (images.cover) {
+    page.ops.push({ type: 'image', image: images.cover, x: MARGIN, y, width: CONTENT_WIDTH, height: COVER_HEIGHT });
+  } else {
+    page.ops.push({ type: 'rect', x: MARGIN, y, width: CONTENT_WIDTH, height: COVER_HEIGHT, fill: '#f1f5f9' });
+    const label = 'No photo available';
+    text(MARGIN + (CONTENT_WIDTH - textWidth(label, 11)) / 2, y + COVER_HEIGHT / 2 + 4, label, 11, 'regular', COLORS.faint);
+  }
+  y += COVER_HEIGHT + 8;
+
+  // --- Specs ---
+  sectionTitle('Property Specs');
+  const tranches = getLoanTranches(p);
+  const ltv = tranches.reduce((sum, t) => sum + t.ltvPercent, 0);
+  const specs: [string, string][] = [
+    ['Purchase Price', formatCurrency(p.price)],
+    ['Price / Sq Ft', p.sqft > 0 ? formatCurrency(p.price / p.sqft) : 'N/A'],
+    ['Bedrooms / Bathrooms', `${p.bedrooms} / ${p.bathrooms}`],
+    ['Square Feet', p.sqft.toLocaleString('en-US')],
+    ['Rental Strategy', STRATEGY_LABELS[m.strategy]],
+    ['Income Model', p.units?.length
+      ? `Rent roll, ${p.units.length} units`
+      : m.strategy === 'str'
+        ? `${formatCurrency(p.nightlyRate)} / night at ${p.occupancyRate}%${p.seasonality ? ' (seasonal)' : ''}`
+        : `${formatCurrency(getLeaseAssumptions(p, m.strategy).monthlyRent)} / month`],
+    ['Financing', p.financing
+      ? `${tranches.length} loan${tranches.length === 1 ? '' : 's'}, ${ltv.toFixed(0)}% combined LTV`
+      : `${p.downPaymentPercent}% down, ${p.interestRate}% for ${p.loanTermYears} yrs`],
+    ['Tags', p.tags?.length ? p.tags.join(', ') : '—'],
+  ];
+  const columnWidth = CONTENT_WIDTH / 2;
+  for (let i = 0; i < specs.length; i += 2) {
+    ensure(18);
+    specs.slice(i, i + 2).forEach(([label, value], c) => {
+      const x = MARGIN + c * columnWidth;
+      text(x, y + 11, label, 9, 'regular', COLORS.muted);
+      rightText(x + columnWidth - (c === 0 ? 16 : 0), y + 11, value, 9.5, 'bold');
+    });
+    y += 18;
+  }
+  y += 6;
+
+  // --- Metric tiles (same set as the property page) ---
+  sectionTitle('Key Metrics');
+  tiles([
+    { label: 'Net Monthly', value: formatCurrency(m.cashFlow), color: signedColor(m.cashFlow) },
+    { label: 'Cash on Cash', value: formatPercent(m.cashOnCashReturn), color: COLORS.blue },
+    { label: 'After-Tax Return', value: formatPercent(taxImpact.afterTaxReturn), color: COLORS.blue },
+    { label: 'Cap Rate', value: formatPercent(m.capRate), color: COLORS.purple },
+    { label: 'Initial Invest', value: formatCurrency(m.totalInvestment), color: COLORS.neutral },
+    { label: 'Taxable Income', value: formatCurrency(taxImpact.taxableIncome), color: COLORS.neutral },
+    { label: 'Tax Savings', value: formatCurrency(taxImpact.taxSavings), color: taxImpact.taxSavings >= 0 ? COLORS.positive : COLORS.negative },
+    { label: 'After-Tax CF (Yr)', value: formatCurrency(taxImpact.afterTaxCashFlow), color: signedColor(taxImpact.afterTaxCashFlow) },
+  ], 4);
+
+  // --- Income / expense / profit ---
+  sectionTitle('Income, Expenses & Profit');
+  tiles([
+    { label: 'Gross Monthly Income', value: formatCurrency(m.monthlyIncome), color: COLORS.positive },
+    { label: 'Total Expenses (inc. mortgage)', value: formatCurrency(m.monthlyExpenses + m.monthlyMortgage), color: COLORS.negative },
+    { label: 'Est. Monthly Profit/Loss', value: formatCurrency(m.cashFlow), color: signedColor(m.cashFlow) },
+  ], 3, 54);
+  const noi = m.monthlyIncome - m.monthlyExpenses;
+  table(['', 'Monthly', 'Annual'], [
+    ['Gross Income', formatCurrency(m.monthlyIncome), formatCurrency(m.monthlyIncome * 12)],
+    ['Operating Expenses', formatCurrency(-m.monthlyExpenses), formatCurrency(-m.monthlyExpenses * 12)],
+    ['Net Operating Income', formatCurrency(noi), formatCurrency(noi * 12)],
+    ['Debt Service', formatCurrency(-m.monthlyMortgage), formatCurrency(-m.monthlyMortgage * 12)],
+    ['Cash Flow', formatCurrency(m.cashFlow), formatCurrency(m.cashFlow * 12)],
+  ], [CONTENT_WIDTH - 240, 120, 120], { boldLast: true });
+
+  // --- Expense table ---
+  sectionTitle('Operating Expenses');
+  // Leases may hand site costs to the tenant; a rent roll and short-term rentals always carry them
+  const ownerPays = p.units?.length || m.strategy === 'str' ? null : getLeaseAssumptions(p, m.strategy).ownerPays;
+  const siteCost = (key: TenantPayableExpense, label: string): [string, number] =>
+    !ownerPays || ownerPays.includes(key) ? [label, p[key] || 0] : [`${label} (paid by tenant)`, 0];
+  const bookingCosts = m.monthlyVariableExpenses - m.monthlyManagementFee;
+  const unitExpenses = (p.units || []).reduce((sum, u) => sum + u.monthlyExpenses, 0);
+  const expenseLines: [string, number][] = [
+    ['Property Tax', p.propertyTax / 12],
+    ['Home Insurance', p.insurance / 12],
+    ['HOA Fees', p.hoa],
+    siteCost('snowRemoval', 'Snow Removal'),
+    siteCost('hotTubMaintenance', 'Hot Tub Maintenance'),
+    siteCost('utilities', 'Utilities'),
+    ['General Maintenance', p.maintenance],
+    ['Management Fee', m.monthlyManagementFee],
+    ...(bookingCosts > 0.005 ? [['Booking Fees & Cleaning', bookingCosts] as [string, number]] : []),
+    ...(unitExpenses > 0 ? [['Unit-Level Expenses', unitExpenses] as [string, number]] : []),
+    ['Other', p.otherExpenses],
+  ];
+  const share = (value: number) => m.monthlyIncome > 0 ? formatPercent((value / m.monthlyIncome) * 100) : '—';
+  table(['Expense', 'Monthly', 'Annual', '% of Income'], [
+    ...expenseLines.map(([label, value]) => [label, formatCurrency(value), formatCurrency(value * 12), share(value)]),
+    ['Total Operating Expenses', formatCurrency(m.monthlyExpenses), formatCurrency(m.monthlyExpenses * 12), share(m.monthlyExpenses)],
+  ], [CONTENT_WIDTH - 300, 100, 100, 100], { boldLast: true });
+
+  // --- AI text ---
+  if (p.aiDescription) {
+    sectionTitle('Property Highlights');
+    paragraph(plainText(p.aiDescription));
+  }
+  if (p.fairOfferRecommendation) {
+    sectionTitle('Fair Offer Recommendation');
+    paragraph(plainText(p.fairOfferRecommendation));
+  }
+
+  const research = p.marketResearch;
+  if (research) {
+    sectionTitle('Market Research');
+    paragraph(`"${research.query}" · ${new Date(research.fetchedAt).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' })}`, 9, COLORS.muted);
+    if (research.text) paragraph(plainText(research.text));
+    if (research.sources.length > 0) {
+      ensure(30);
+      text(MARGIN, y + 10, 'SOURCES', 8, 'bold', COLORS.muted);
+      y += 18;
+      research.sources.forEach((source, i) => {
+        paragraph(`${i + 1}. ${source.title || source.uri}`, 9, COLORS.text, 'bold', 0);
+        paragraph(source.uri, 8, COLORS.accent);
+      });
+    }
+  }
+
+  ensure(40);
+  y += 10;
+  paragraph('Figures are projections from the assumptions above and are not a guarantee of future performance. '
+    + 'Verify income, expenses and financing terms independently before investing.', 8, COLORS.faint);
+
+  // Footers, now that the page count is known
+  const prepared = `Prepared ${new Date().toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' })}${branding.firmName ? ` by ${branding.firmName}` : ''}`;
+  pages.forEach((pg, i) => {
+    pg.ops.push({ type: 'line', x1: MARGIN, y1: PAGE_HEIGHT - 44, x2: PAGE_WIDTH - MARGIN, y2: PAGE_HEIGHT - 44, color: COLORS.border });
+    pg.ops.push({ type: 'text', x: MARGIN, y: PAGE_HEIGHT - 30, text: prepared, size: 8, color: COLORS.faint });
+    const label = `Page ${i + 1} of ${pages.length}`;
+    pg.ops.push({ type: 'text', x: PAGE_WIDTH - MARGIN - textWidth(label, 8), y: PAGE_HEIGHT - 30, text: label, size: 8, color: COLORS.faint });
+  });
+
+  return pages;
+};
+
+// Re-encodes an image as JPEG via a canvas, optionally center-cropped to `aspect` (width / height).
+// Remote photos only load when their host allows cross-origin reads; otherwise this resolves to null.
+const loadJpeg = (src: string, maxWidth: number, aspect?: number): Promise<PdfImage | null> =>
+  new Promise(resolve => {
+    const img = new Image();
+    img.crossOrigin = 'anonymous';
+    img.onload = () => {
+      try {
+        let sx = 0;
+        let sy = 0;
+        let sw = img.naturalWidth;
+        let sh = img.naturalHeight;
+        if (aspect) {
+          if (sw / sh > aspect) {
+            sw = sh * aspect;
+            sx = (img.naturalWidth - sw) / 2;
+          } else {
+            sh = sw / aspect;
+            sy = (img.naturalHeight - sh) / 2;
+          }
+        }
+        const scale = Math.min(1, maxWidth / sw);
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.max(1, Math.round(sw * scale));
+        canvas.height = Math.max(1, Math.round(sh * scale));
+        const ctx = canvas.getContext('2d');
+        if (!ctx) return resolve(null);
+        // JPEG has no transparency; logos go on white like the page
+        ctx.fillStyle = '#ffffff';
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+        ctx.drawImage(img, sx, sy, sw, sh, 0, 0, canvas.width, canvas.height);
+        const base64 = canvas.toDataURL('image/jpeg', 0.85).split(',')[1];
+        resolve({ data: Uint8Array.from(atob(base64), c => c.charCodeAt(0)), width: canvas.width, height: canvas.height });
+      } catch (e) {
+        // Tainted canvas: the host didn't allow cross-origin reads
+        console.warn('Could not embed image in memo:', e);
+        resolve(null);
+      }
+    };
+    img.onerror = () => resolve(null);
+    img.src = src;
+  });
+
+// Uses the first photo that can be embedded
+const loadCover = async (urls: string[]): Promise<PdfImage | null> => {
+  for (const url of urls) {
+    const image = await loadJpeg(url, 1600, CONTENT_WIDTH / COVER_HEIGHT);
+    if (image) return image;
+  }
+  return null;
+};
+
+// `p` is the property as shown, i.e. with its active scenario applied
+export const exportInvestorMemo = async (p: Property, branding: MemoBranding) => {
+  const [cover, logo] = await Promise.all([
+    loadCover(p.images),
+    branding.logo ? loadJpeg(branding.logo, 480) : Promise.resolve(null),
+  ]);
+  const pages = buildInvestorMemo(p, branding, { cover, logo });
+  downloadFile(`${toFileName(p.address)}-investor-memo.pdf`, buildPdf(pages, `Investor Memo: ${p.address}`), PDF_MIME_TYPE);
+};
@@ -0,0 +1,86 @@
+import { Property, CalculationResult, ListMetric, ListSort, ListView } from '../types';
+import { calculateMetrics, formatCurrency, formatPercent } from './calculations';
+import { getCity } from './portfolio';
+import { applyActiveScenario } from './scenarios';
+
+export const LIST_METRIC_LABELS: Record<ListMetric, string> = {
+  cashFlow: 'Cash Flow',
+  cashOnCash: 'Cash on Cash',
+  capRate: 'Cap Rate',
+  dscr: 'DSCR',
+  price: 'Price',
+  pricePerSqft: 'Price / Sq Ft',
+};
+
+export const LIST_METRICS = Object.keys(LIST_METRIC_LABELS) as ListMetric[];
+
+export const LIST_SORT_LABELS: Record<ListSort, string> = { added: 'Date Added', ...LIST_METRIC_LABELS };
+
+export const DEFAULT_LIST_VIEW: ListView = {
+  sortBy: 'added',
+  sortDirection: 'desc',
+  ranges: {},
+  cities: [],
+  tags: [],
+};
+
+export const formatListMetric = (metric: ListMetric, value: number): string =>
+  metric === 'cashOnCash' || metric === 'capRate' ? formatPercent(value)
+  : metric === 'dscr' ? (isFinite(value) ? `${value.toFixed(2)}x` : 'N/A')
+  : formatCurrency(value);
+
+const readListMetric = (p: Property, m: CalculationResult, metric: ListMetric): number => {
+  switch (metric) {
+    case 'cashFlow': return m.cashFlow;
+    case 'cashOnCash': return m.cashOnCashReturn;
+    case 'capRate': return m.capRate;
+    case 'dscr': return m.dscr;
+    case 'price': return p.price;
+    case 'pricePerSqft': return p.sqft > 0 ? p.price / p.sqft : Infinity;
+  }
+};
+
+// Filters on computed metrics (not just raw fields) and sorts; the input order breaks ties
+export const applyListView = (properties: Property[], view: ListView): Property[] => {
+  const rows = properties.map(p => {
+    const numbers = applyActiveScenario(p);
+    return { p, numbers, m: calculateMetrics(numbers) };
+  });
+  const direction = view.sortDirection === 'asc' ? 1 : -1;
+
+  const sorted = rows
+    .filter(({ p, numbers, m }) => {
+      const inRanges = LIST_METRICS.every(metric => {
+        const range = view.ranges[metric];
+        if (!range) return true;
+        const value = readListMetric(numbers, m, metric);
+        return (range.min === undefined || value >= range.min) && (range.max === undefined || value <= range.max);
+      });
+      const inCity = view.cities.length === 0 || view.cities.includes(getCity(p.address));
+      const hasTags = view.tags.every(tag => p.tags?.includes(tag));
+      const hasBeds = view.minBeds === undefined || p.bedrooms >= view.minBeds;
+      return inRanges && inCity && hasTags && hasBeds;
+    })
+    .sort((a, b) => {
+      if (view.sortBy === 'added') return 0;
+      const diff = readListMetric(a.numbers, a.m, view.sortBy) - readListMetric(b.numbers, b.m, view.sortBy);
+      return isNaN(diff) ? 0 : diff * direction;
+    })
+    .map(({ p }) => p);
+  // The portfolio is stored newest first
+  return view.sortBy === 'added' && view.sortDirection === 'asc' ? sorted.reverse() : sorted;
+};
+
+// Short summary of the active filters, e.g. "Austin, TX · CoC ≥ 8% · 3+ beds"
+export const describeListView = (view: ListView): string => {
+  const parts: string[] = [];
+  if (view.cities.length) parts.push(view.cities.join(' / '));
+  if (view.tags.length) parts.push(view.tags.map(t => `#${t}`).join(' '));
+  if (view.minBeds !== undefined) parts.push(`${view.minBeds}+ beds`);
+  LIST_METRICS.forEach(metric => {
+    const range = view.ranges[metric];
+    if (range?.min !== undefined) parts.push(`${LIST_METRIC_LABELS[metric]} ≥ ${formatListMetric(metric, range.min)}`);
+    if (range?.max !== undefined) parts.push(`${LIST_METRIC_LABELS[metric]} ≤ ${formatListMetric(metric, range.max)}`);
+  });
+  return parts.join(' · ');
+};
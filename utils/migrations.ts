@@ -0,0 +1,25 @@
+import { Property } from '../types';
+
+// Version of the Property record shape. Bump it and add a migration whenever a stored field
+// is renamed or restructured; new optional fields don't need one.
+export const SCHEMA_VERSION = 2;
+
+type PropertyRecord = Record<string, any>;
+
+// Each entry upgrades a record from version N to N + 1, keeping every field it doesn't touch
+const MIGRATIONS: Record<number, (record: PropertyRecord) => PropertyRecord> = {
+  // v1 -> v2: the single imageUrl became the images gallery
+  1: ({ imageUrl, ...rest }) => ({
+    ...rest,
+    images: Array.isArray(rest.images) ? rest.images : imageUrl ? [imageUrl] : [],
+  }),
+};
+
+// Records saved before versioning existed are treated as v1
+export const migrateProperty = (record: PropertyRecord, fromVersion = 1): Property => {
+  let migrated = record;
+  for (let version = Math.max(fromVersion, 1); version < SCHEMA_VERSION; version++) {
+    migrated = MIGRATIONS[version](migrated);
+  }
+  return migrated as Property;
+};
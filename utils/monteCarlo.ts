@@ -0,0 +1,132 @@
+import { Property, MonteCarloConfig, MonteCarloResult, PercentileSummary } from '../types';
+import { calculateMetrics } from './calculations';
+import { buildProjection, DEFAULT_PROJECTION } from './projections';
+import { scaleVariable } from './sensitivity';
+
+export const DEFAULT_MONTE_CARLO: MonteCarloConfig = {
+  iterations: 10000,
+  seed: 42,
+  occupancySd: 12,
+  adrSd: 10,
+  expenseInflationMean: 3,
+  expenseInflationSd: 2,
+  vacancyShockProbability: 10,
+  vacancyShockMonths: 2,
+  rateResetProbability: 15,
+  rateResetDelta: 1.5,
+  appreciationSd: 3,
+};
+
+const HISTOGRAM_BINS = 20;
+
+// mulberry32 - small, fast PRNG so a fixed seed gives repeatable runs
+export const createRandom = (seed: number) => {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Standard normal draw (Box-Muller)
+const normal = (random: () => number) => {
+  const u = Math.max(random(), 1e-12);
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+};
+
+const percentiles = (values: Float64Array): PercentileSummary => {
+  const sorted = Float64Array.from(values).sort();
+  const at = (q: number) => sorted[Math.min(sorted.length - 1, Math.floor(q * sorted.length))] ?? 0;
+  return { p10: at(0.1), p50: at(0.5), p90: at(0.9) };
+};
+
+const EXPENSE_FIELDS = ['propertyTax', 'insurance', 'utilities', 'maintenance', 'hoa', 'snowRemoval', 'hotTubMaintenance', 'otherExpenses'] as const;
+
+// Draws one random version of the property from the configured distributions
+const sampleProperty = (p: Property, c: MonteCarloConfig, random: () => number): Property => {
+  let s = scaleVariable(p, 'occupancyRate', Math.max(0, 1 + (normal(random) * c.occupancySd) / 100));
+  s = scaleVariable(s, 'nightlyRate', Math.max(0, 1 + (normal(random) * c.adrSd) / 100));
+
+  const inflation = 1 + (c.expenseInflationMean + normal(random) * c.expenseInflationSd) / 100;
+  EXPENSE_FIELDS.forEach(field => {
+    s = { ...s, [field]: (s[field] || 0) * inflation };
+  });
+
+  if (random() < c.vacancyShockProbability / 100) {
+    const lostShare = Math.min(c.vacancyShockMonths, 12) / 12;
+    s = scaleVariable(s, 'occupancyRate', 1 - lostShare);
+    if (s.leaseStrategies) {
+      const leases = { ...s.leaseStrategies };
+      (Object.keys(leases) as (keyof typeof leases)[]).forEach(k => {
+        const lease = leases[k];
+        if (lease) leases[k] = { ...lease, vacancyPercent: Math.min(100, lease.vacancyPercent + lostShare * 100) };
+      });
+      s = { ...s, leaseStrategies: leases };
+    }
+  }
+
+  if (random() < c.rateResetProbability / 100) {
+    s = {
+      ...s,
+      interestRate: s.interestRate + c.rateResetDelta,
+      financing: s.financing?.map(t => ({ ...t, interestRate: t.interestRate + c.rateResetDelta })),
+    };
+  }
+
+  const projection = p.projection || DEFAULT_PROJECTION;
+  return {
+    ...s,
+    projection: { ...projection, appreciationRate: projection.appreciationRate + normal(random) * c.appreciationSd },
+  };
+};
+
+export const runMonteCarlo = (
+  p: Property,
+  config: MonteCarloConfig,
+  onProgress?: (completed: number) => void
+): MonteCarloResult => {
+  const random = createRandom(config.seed);
+  const n = Math.max(1, Math.floor(config.iterations));
+  const cashFlows = new Float64Array(n);
+  const coc = new Float64Array(n);
+  const irr = new Float64Array(n);
+  let irrCount = 0;
+  let negative = 0;
+
+  for (let i = 0; i < n; i++) {
+    const sample = sampleProperty(p, config, random);
+    const metrics = calculateMetrics(sample);
+    cashFlows[i] = metrics.cashFlow;
+    coc[i] = metrics.cashOnCashReturn;
+    // Some runs have no IRR in the solver's range (e.g. sale proceeds can't repay the loan); leave them out rather than count them as -100%
+    const sampleIrr = buildProjection(sample).irr;
+    if (sampleIrr !== null) irr[irrCount++] = sampleIrr;
+    if (metrics.cashFlow < 0) negative++;
+    if (onProgress && (i + 1) % 1000 === 0) onProgress(i + 1);
+  }
+
+  // Histogram spans P1..P99 so a few outliers don't flatten the chart
+  const sortedCoc = Float64Array.from(coc).sort();
+  const lo = sortedCoc[Math.floor(0.01 * (n - 1))];
+  const hi = sortedCoc[Math.ceil(0.99 * (n - 1))];
+  const width = (hi - lo) / HISTOGRAM_BINS || 1;
+  const histogram = Array.from({ length: HISTOGRAM_BINS }, (_, b) => ({ from: lo + b * width, to: lo + (b + 1) * width, count: 0 }));
+  coc.forEach(v => {
+    const bin = Math.min(HISTOGRAM_BINS - 1, Math.max(0, Math.floor((v - lo) / width)));
+    histogram[bin].count++;
+  });
+
+  return {
+    iterations: n,
+    seed: config.seed,
+    probabilityNegativeCashFlow: (negative / n) * 100,
+    cashFlow: percentiles(cashFlows),
+    cashOnCash: percentiles(coc),
+    irr: irrCount > 0 ? percentiles(irr.subarray(0, irrCount)) : null,
+    irrUnresolved: n - irrCount,
+    histogram,
+  };
+};
@@ -0,0 +1,165 @@
+// Minimal PDF writer: Helvetica text, filled / stroked rectangles, lines and JPEG images on
+// US Letter pages. Layout code works top-down in points from the top-left corner.
+
+export const PAGE_WIDTH = 612;
+export const PAGE_HEIGHT = 792;
+
+export type PdfFont = 'regular' | 'bold';
+
+export interface PdfImage {
+  data: Uint8Array; // baseline JPEG
+  width: number; // pixels
+  height: number;
+}
+
+export type PdfOp =
+  | { type: 'text'; x: number; y: number; text: string; size: number; font?: PdfFont; color?: string } // y is the baseline
+  | { type: 'rect'; x: number; y: number; width: number; height: number; fill?: string; stroke?: string }
+  | { type: 'line'; x1: number; y1: number; x2: number; y2: number; color?: string; width?: number }
+  | { type: 'image'; image: PdfImage; x: number; y: number; width: number; height: number };
+
+export interface PdfPage {
+  ops: PdfOp[];
+}
+
+const FONT_NAMES: Record<PdfFont, string> = { regular: 'F1', bold: 'F2' };
+
+// Advance widths (1/1000 em) for ASCII 32..126 from the standard Helvetica metrics
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556,
+  556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 333, 333, 584, 584, 584, 611, 975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556, 333, 556, 611, 556, 611, 556, 333, 611,
+  611, 278, 278, 556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+// Unicode punctuation that WinAnsiEncoding has a slot for; other characters above U+00FF print as "?"
+const WIN_ANSI: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, '„': 0x84, '…': 0x85, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '™': 0x99,
+};
+
+// One byte per character, as a binary string
+const encodeText = (text: string): string =>
+  Array.from(text.replace(/[\r\n\t]/g, ' '), ch => {
+    const code = ch.codePointAt(0) || 0;
+    if (code >= 32 && code <= 0xff && (code < 0x7f || code >= 0xa0)) return ch;
+    return WIN_ANSI[ch] !== undefined ? String.fromCharCode(WIN_ANSI[ch]) : '?';
+  }).join('');
+
+export const textWidth = (text: string, size: number, font: PdfFont = 'regular'): number => {
+  const widths = font === 'bold' ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  let total = 0;
+  for (const ch of encodeText(text)) {
+    const code = ch.charCodeAt(0);
+    total += code >= 32 && code <= 126 ? widths[code - 32] : 556;
+  }
+  return (total * size) / 1000;
+};
+
+// Greedy word wrap; blank lines in the text are kept as paragraph breaks
+export const wrapText = (text: string, size: number, maxWidth: number, font: PdfFont = 'regular'): string[] => {
+  const lines: string[] = [];
+  text.split(/\r?\n/).forEach(paragraph => {
+    let line = '';
+    paragraph.split(/\s+/).filter(Boolean).forEach(word => {
+      const candidate = line ? `${line} ${word}` : word;
+      if (textWidth(candidate, size, font) <= maxWidth || !line) {
+        line = candidate;
+      } else {
+        lines.push(line);
+        line = word;
+      }
+      // Words wider than the column (long URLs) are broken by character
+      while (textWidth(line, size, font) > maxWidth && line.length > 1) {
+        let cut = line.length - 1;
+        while (cut > 1 && textWidth(line.slice(0, cut), size, font) > maxWidth) cut--;
+        lines.push(line.slice(0, cut));
+        line = line.slice(cut);
+      }
+    });
+    lines.push(line);
+  });
+  // Drop trailing blank lines
+  while (lines.length > 0 && !lines[lines.length - 1]) lines.pop();
+  return lines;
+};
+
+const escapePdfString = (text: string) => encodeText(text).replace(/[\\()]/g, ch => `\\${ch}`);
+
+const num = (n: number) => (Math.round(n * 100) / 100).toString();
+
+// '#4f46e5' -> '0.31 0.275 0.898'
+const rgb = (hex: string): string => {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff].map(c => num(c / 255)).join(' ');
+};
+
+const contentStream = (page: PdfPage, imageNames: Map<PdfImage, string>): string =>
+  page.ops.map(op => {
+    switch (op.type) {
+      case 'text':
+        return `BT /${FONT_NAMES[op.font || 'regular']} ${num(op.size)} Tf ${rgb(op.color || '#0f172a')} rg ${num(op.x)} ${num(PAGE_HEIGHT - op.y)} Td (${escapePdfString(op.text)}) Tj ET`;
+      case 'rect': {
+        const box = `${num(op.x)} ${num(PAGE_HEIGHT - op.y - op.height)} ${num(op.width)} ${num(op.height)} re`;
+        if (op.fill && op.stroke) return `${rgb(op.fill)} rg ${rgb(op.stroke)} RG 0.75 w ${box} B`;
+        return op.fill ? `${rgb(op.fill)} rg ${box} f` : `${rgb(op.stroke || '#0f172a')} RG 0.75 w ${box} S`;
+      }
+      case 'line':
+        return `${rgb(op.color || '#0f172a')} RG ${num(op.width ?? 0.75)} w ${num(op.x1)} ${num(PAGE_HEIGHT - op.y1)} m ${num(op.x2)} ${num(PAGE_HEIGHT - op.y2)} l S`;
+      case 'image':
+        return `q ${num(op.width)} 0 0 ${num(op.height)} ${num(op.x)} ${num(PAGE_HEIGHT - op.y - op.height)} cm /${imageNames.get(op.image)} Do Q`;
+    }
+  }).join('\n');
+
+const bytesToBinary = (bytes: Uint8Array): string => {
+  let out = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) out += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return out;
+};
+
+export const PDF_MIME_TYPE = 'application/pdf';
+
+export const buildPdf = (pages: PdfPage[], title: string): Uint8Array<ArrayBuffer> => {
+  const images = Array.from(new Set(pages.flatMap(p => p.ops.flatMap(op => op.type === 'image' ? [op.image] : []))));
+  const imageNames = new Map(images.map((image, i) => [image, `Im${i + 1}`]));
+
+  // Objects 1-5 are fixed; images follow, then a page and its content stream per page
+  const firstImage = 6;
+  const firstPage = firstImage + images.length;
+  const objects: string[] = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pages.map((_, i) => `${firstPage + i * 2} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+    `<< /Title (${escapePdfString(title)}) /CreationDate (D:${new Date().toISOString().replace(/[-:T]/g, '').slice(0, 14)}Z) >>`,
+  ];
+  images.forEach(image => {
+    objects.push(`<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${image.data.length} >>\nstream\n${bytesToBinary(image.data)}\nendstream`);
+  });
+  const xObjects = images.length > 0 ? ` /XObject << ${images.map((image, i) => `/${imageNames.get(image)} ${firstImage + i} 0 R`).join(' ')} >>` : '';
+  pages.forEach((page, i) => {
+    const content = contentStream(page, imageNames);
+    objects.push(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >>${xObjects} >> /Contents ${firstPage + i * 2 + 1} 0 R >>`);
+    objects.push(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+  });
+
+  // Every string is one byte per character, so string offsets are byte offsets
+  let out = '%PDF-1.4\n%\xe2\xe3\xcf\xd3\n';
+  const offsets = objects.map((body, i) => {
+    const offset = out.length;
+    out += `${i + 1} 0 obj\n${body}\nendobj\n`;
+    return offset;
+  });
+  const xref = out.length;
+  out += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n${offsets.map(o => `${String(o).padStart(10, '0')} 00000 n \n`).join('')}`;
+  out += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+  const bytes = new Uint8Array(out.length);
+  for (let i = 0; i < out.length; i++) bytes[i] = out.charCodeAt(i);
+  return bytes;
+};
@@ -0,0 +1,82 @@
+import { Property, PropertyStatus, PortfolioHolding, PortfolioSummary, CityAllocation } from '../types';
+import { calculateMetrics } from './calculations';
+import { balanceAfter, buildAmortizationSchedule } from './amortization';
+import { applyActiveScenario } from './scenarios';
+
+export const PROPERTY_STATUS_LABELS: Record<PropertyStatus, string> = {
+  owned: 'Owned',
+  prospect: 'Prospect',
+};
+
+// "1204 Willow Creek Dr, Austin, TX 78701" -> "Austin, TX"
+export const getCity = (address: string): string => {
+  const parts = address.split(',').map(s => s.trim()).filter(Boolean);
+  if (parts.length >= 3) return `${parts[parts.length - 2]}, ${parts[parts.length - 1].split(/\s+/)[0]}`;
+  if (parts.length === 2) return parts[1];
+  return 'Unknown';
+};
+
+const monthIndex = (yearMonth: string) => {
+  const [y, m] = yearMonth.split('-').map(Number);
+  return y * 12 + (m - 1);
+};
+
+// Owned properties have paid down their loans since the first payment; prospects carry the full amount
+const currentLoanBalance = (p: Property): number => {
+  const schedule = buildAmortizationSchedule(p);
+  if (p.status !== 'owned' || !p.loanStartDate) return schedule.loanAmount;
+  const monthsPaid = monthIndex(new Date().toISOString().slice(0, 7)) - monthIndex(p.loanStartDate) + 1;
+  return balanceAfter(schedule, monthsPaid);
+};
+
+const buildHolding = (p: Property): PortfolioHolding => {
+  const m = calculateMetrics(p);
+  const debt = currentLoanBalance(p);
+  return {
+    id: p.id,
+    address: p.address,
+    city: getCity(p.address),
+    status: p.status || 'prospect',
+    value: p.price,
+    debt,
+    equity: p.price - debt,
+    cashInvested: m.totalInvestment,
+    monthlyCashFlow: m.cashFlow,
+    annualNOI: (m.monthlyIncome - m.monthlyExpenses) * 12,
+  };
+};
+
+// Aggregates calculateMetrics across the given properties, each under its active scenario
+export const calculatePortfolio = (properties: Property[]): PortfolioSummary => {
+  const holdings = properties.map(p => buildHolding(applyActiveScenario(p)));
+  const total = (key: keyof PortfolioHolding) => holdings.reduce((sum, h) => sum + (h[key] as number), 0);
+
+  const totalValue = total('value');
+  const totalDebt = total('debt');
+  const totalCashInvested = total('cashInvested');
+  const monthlyCashFlow = total('monthlyCashFlow');
+  const annualNOI = total('annualNOI');
+
+  const byCity = new Map<string, CityAllocation>();
+  holdings.forEach(h => {
+    const c = byCity.get(h.city) || { city: h.city, count: 0, value: 0, cashInvested: 0, share: 0 };
+    byCity.set(h.city, { ...c, count: c.count + 1, value: c.value + h.value, cashInvested: c.cashInvested + h.cashInvested });
+  });
+  const cities = Array.from(byCity.values())
+    .map(c => ({ ...c, share: totalCashInvested > 0 ? (c.cashInvested / totalCashInvested) * 100 : 0 }))
+    .sort((a, b) => b.cashInvested - a.cashInvested);
+
+  return {
+    holdings,
+    totalValue,
+    totalDebt,
+    totalEquity: totalValue - totalDebt,
+    totalCashInvested,
+    monthlyCashFlow,
+    annualNOI,
+    blendedCashOnCash: totalCashInvested > 0 ? (monthlyCashFlow * 12 / totalCashInvested) * 100 : 0,
+    blendedCapRate: totalValue > 0 ? (annualNOI / totalValue) * 100 : 0,
+    loanToValue: totalValue > 0 ? (totalDebt / totalValue) * 100 : 0,
+    cities,
+  };
+};
@@ -0,0 +1,349 @@
+import { ExitValuation, LeaseStrategy, Property, TenantPayableExpense } from '../types';
+import { calculateMetrics, OFFER_TARGET_LABELS } from './calculations';
+import { applyScenario } from './scenarios';
+import { migrateProperty, SCHEMA_VERSION } from './migrations';
+import { parseCsv, toCsv } from './csv';
+
+// --- JSON backup ---
+
+const FILE_FORMAT = 'propvest-portfolio';
+
+export interface PortfolioFile {
+  format: typeof FILE_FORMAT;
+  schemaVersion: number;
+  exportedAt: string; // ISO timestamp
+  properties: Property[];
+}
+
+export interface ImportResult {
+  properties: Property[];
+  errors: string[]; // one per skipped record or cell, safe to show the user
+}
+
+export type ImportMode = 'merge' | 'replace';
+
+const REQUIRED_NUMBERS: (keyof Property)[] = [
+  'price', 'bedrooms', 'bathrooms', 'sqft', 'downPaymentPercent', 'interestRate', 'loanTermYears',
+  'nightlyRate', 'occupancyRate', 'propertyTax', 'insurance', 'managementFeePercent',
+  'snowRemoval', 'hotTubMaintenance', 'utilities', 'maintenance', 'hoa', 'otherExpenses',
+];
+
+const newId = () => Date.now().toString() + Math.random();
+
+export const exportPortfolioJson = (properties: Property[]): string => {
+  const file: PortfolioFile = {
+    format: FILE_FORMAT,
+    schemaVersion: SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    properties,
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+const isFiniteNumber = (value: unknown): boolean => typeof value === 'number' && isFinite(value);
+export const isObject = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object' && !Array.isArray(value);
+const hasNumbers = (value: unknown, keys: string[]): boolean => isObject(value) && keys.every(k => isFiniteNumber(value[k]));
+
+// Optional lists of assumption objects, with the number fields their calculations read
+const NESTED_LISTS: { key: keyof Property; label: string; numbers: string[]; length?: number }[] = [
+  { key: 'financing', label: 'loan list', numbers: ['ltvPercent', 'interestRate', 'termYears', 'interestOnlyMonths', 'pointsPercent', 'pmiRate'] },
+  { key: 'units', label: 'rent roll', numbers: ['bedrooms', 'bathrooms', 'rate', 'occupancyRate', 'managementFeePercent', 'monthlyExpenses'] },
+  { key: 'seasonality', label: 'seasonal calendar', numbers: ['weekdayRate', 'weekendRate', 'weekdayOccupancy', 'weekendOccupancy'], length: 12 },
+];
+
+const EXIT_VALUATIONS: ExitValuation[] = ['appreciation', 'salePrice', 'capRate'];
+const LEASE_STRATEGIES: LeaseStrategy[] = ['mtr', 'ltr'];
+const TENANT_PAYABLE_EXPENSES: TenantPayableExpense[] = ['utilities', 'snowRemoval', 'hotTubMaintenance'];
+
+// Optional assumption objects, with their number fields, yes/no fields and fields limited to a set of values
+const NESTED_OBJECTS: { key: keyof Property; label: string; numbers: string[]; flags?: string[]; choices?: Record<string, string[]> }[] = [
+  { key: 'strFees', label: 'booking fees', numbers: ['averageStayNights', 'cleaningFeePerStay', 'cleaningCostPerTurnover', 'platformFeePercent', 'cardFeePercent', 'lodgingTaxPercent'] },
+  { key: 'projection', label: 'projection assumptions', numbers: ['holdYears', 'appreciationRate', 'rentGrowthRate', 'expenseInflationRate', 'discountRate', 'sellingCostPercent'] },
+  { key: 'tax', label: 'tax assumptions', numbers: ['landValuePercent', 'marginalTaxRate', 'shortLifePercent', 'bonusDepreciationPercent'], flags: ['costSegregation'] },
+  {
+    key: 'disposition',
+    label: 'sale assumptions',
+    numbers: ['saleYear', 'salePrice', 'exitCapRate', 'sellingCostPercent', 'capitalGainsRate', 'recaptureRate', 'replacementLtv', 'replacementCapRate'],
+    flags: ['exchange1031'],
+    choices: { valuation: EXIT_VALUATIONS },
+  },
+  {
+    key: 'brrrr',
+    label: 'BRRRR assumptions',
+    numbers: ['purchaseLoanPercent', 'rehabBudget', 'rehabLoanPercent', 'shortTermRate', 'shortTermPoints', 'rehabMonths', 'afterRepairValue', 'refiLtv', 'refiRate', 'refiTermYears', 'refiClosingCostPercent'],
+  },
+  { key: 'offerTarget', label: 'max offer settings', numbers: ['value'], choices: { metric: Object.keys(OFFER_TARGET_LABELS) } },
+];
+
+const isValidLease = (lease: unknown): boolean =>
+  isObject(lease) && hasNumbers(lease, ['monthlyRent', 'vacancyPercent', 'managementFeePercent'])
+  && Array.isArray(lease.ownerPays) && lease.ownerPays.every(key => TENANT_PAYABLE_EXPENSES.includes(key));
+
+const ACQUISITION_NUMBERS = ['lenderFees', 'titleEscrow', 'inspection', 'pointsPercent', 'otherClosing', 'furnishing', 'setup'];
+
+const validateNested = (record: Property, label: string): string[] => {
+  const errors: string[] = [];
+  NESTED_LISTS.forEach(({ key, label: name, numbers, length }) => {
+    const list = record[key];
+    if (list === undefined) return;
+    const valid = Array.isArray(list) && (length === undefined || list.length === length)
+      && list.every(item => hasNumbers(item, numbers));
+    if (!valid) errors.push(`${label}: ${name} is incomplete`);
+  });
+  NESTED_OBJECTS.forEach(({ key, label: name, numbers, flags = [], choices = {} }) => {
+    const value: unknown = record[key];
+    if (value === undefined) return;
+    const valid = isObject(value) && hasNumbers(value, numbers)
+      && flags.every(f => typeof value[f] === 'boolean')
+      && Object.entries(choices).every(([f, options]) => options.includes(value[f] as string));
+    if (!valid) errors.push(`${label}: ${name} are incomplete`);
+  });
+  const leases: unknown = record.leaseStrategies;
+  if (leases !== undefined && !(isObject(leases)
+    && Object.entries(leases).every(([strategy, lease]) => LEASE_STRATEGIES.includes(strategy as LeaseStrategy) && (lease === undefined || isValidLease(lease))))) {
+    errors.push(`${label}: lease assumptions are incomplete`);
+  }
+  const costs = record.acquisitionCosts;
+  if (costs !== undefined && !(hasNumbers(costs, ACQUISITION_NUMBERS) && Array.isArray(costs.rehab) && costs.rehab.every(item => hasNumbers(item, ['amount'])))) {
+    errors.push(`${label}: acquisition costs are incomplete`);
+  }
+  return errors;
+};
+
+const runsModel = (p: Property): boolean => {
+  try {
+    calculateMetrics(p);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Checks the fields every calculation relies on, including each scenario's overrides applied on top
+export const validateProperty = (record: Property, label: string): string[] => {
+  const errors: string[] = [];
+  if (typeof record.address !== 'string' || !record.address.trim()) errors.push(`${label}: address is missing`);
+  if (!Array.isArray(record.images) || record.images.some(url => typeof url !== 'string')) errors.push(`${label}: images must be a list of URLs`);
+  if (record.tags !== undefined && (!Array.isArray(record.tags) || record.tags.some(tag => typeof tag !== 'string'))) errors.push(`${label}: tags must be a list of text`);
+  REQUIRED_NUMBERS.forEach(key => {
+    const value = record[key];
+    if (!isFiniteNumber(value)) errors.push(`${label}: ${key} must be a number`);
+  });
+  errors.push(...validateNested(record, label));
+
+  if (record.scenarios !== undefined && !Array.isArray(record.scenarios)) return [...errors, `${label}: scenarios must be a list`];
+  (record.scenarios || []).forEach((scenario, i) => {
+    const name = `${label}, scenario ${i + 1}`;
+    if (!isObject(scenario) || typeof scenario.id !== 'string' || typeof scenario.name !== 'string' || !isObject(scenario.overrides)) {
+      errors.push(`${name}: not a valid scenario`);
+      return;
+    }
+    const applied = { ...record, ...scenario.overrides };
+    REQUIRED_NUMBERS.forEach(key => {
+      if (!isFiniteNumber(applied[key])) errors.push(`${name}: ${key} must be a number`);
+    });
+    errors.push(...validateNested(applied, name));
+  });
+  if (errors.length > 0) return errors;
+
+  // Backstop for shapes the checks above don't cover: a record the model can't run would break
+  // the app on every load, so it's rejected rather than saved
+  const views = [undefined, ...(record.scenarios || [])];
+  if (views.some(scenario => !runsModel(applyScenario(record, scenario)))) errors.push(`${label}: the numbers can't be calculated`);
+  return errors;
+};
+
+// Accepts files written by exportPortfolioJson, including older schema versions,
+// and bare arrays of properties (treated as the oldest schema)
+export const parsePortfolioJson = (text: string): ImportResult => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { properties: [], errors: ['The file is not valid JSON.'] };
+  }
+
+  const file = isObject(data) && data.format === FILE_FORMAT && Array.isArray(data.properties) ? data : null;
+  const records: unknown[] | null = file ? (file.properties as unknown[]) : Array.isArray(data) ? data : null;
+  if (!records) {
+    return { properties: [], errors: ['The file is not a PropVest portfolio export.'] };
+  }
+  const version = file ? Number(file.schemaVersion) || 1 : 1;
+  if (version > SCHEMA_VERSION) {
+    return { properties: [], errors: [`The file was written by a newer version of the app (schema ${version}). Update the app and try again.`] };
+  }
+
+  const errors: string[] = [];
+  const properties: Property[] = [];
+  records.forEach((record, i) => {
+    if (!isObject(record)) {
+      errors.push(`Property ${i + 1}: not an object`);
+      return;
+    }
+    const property = migrateProperty(record, version);
+    const recordErrors = validateProperty(property, `Property ${i + 1}${typeof property.address === 'string' ? ` (${property.address})` : ''}`);
+    if (recordErrors.length > 0) {
+      errors.push(...recordErrors);
+      return;
+    }
+    properties.push(typeof property.id === 'string' && property.id ? property : { ...property, id: newId() });
+  });
+  return { properties, errors };
+};
+
+// Merge keeps existing properties, replacing any with a matching id and adding the rest on top
+export const mergeImport = (existing: Property[], incoming: Property[], mode: ImportMode): Property[] => {
+  if (mode === 'replace') return incoming;
+  const incomingById = new Map(incoming.map(p => [p.id, p]));
+  const existingIds = new Set(existing.map(p => p.id));
+  return [...incoming.filter(p => !existingIds.has(p.id)), ...existing.map(p => incomingById.get(p.id) || p)];
+};
+
+// --- CSV (spreadsheet round trip) ---
+
+type CsvFieldKind = 'text' | 'number' | 'list' | 'status';
+
+export interface CsvField {
+  key: keyof Property;
+  label: string;
+  kind: CsvFieldKind;
+  aliases?: string[]; // other header names to recognise, normalised
+}
+
+// Flat fields a spreadsheet can carry; lists are separated by semicolons
+export const CSV_FIELDS: CsvField[] = [
+  { key: 'id', label: 'ID', kind: 'text' },
+  { key: 'address', label: 'Address', kind: 'text', aliases: ['property', 'location', 'streetaddress'] },
+  { key: 'price', label: 'Price', kind: 'number', aliases: ['listprice', 'purchaseprice', 'askingprice'] },
+  { key: 'bedrooms', label: 'Bedrooms', kind: 'number', aliases: ['beds', 'bd', 'br'] },
+  { key: 'bathrooms', label: 'Bathrooms', kind: 'number', aliases: ['baths', 'ba'] },
+  { key: 'sqft', label: 'Sq Ft', kind: 'number', aliases: ['squarefeet', 'squarefootage', 'size'] },
+  { key: 'downPaymentPercent', label: 'Down Payment %', kind: 'number', aliases: ['down', 'downpayment'] },
+  { key: 'interestRate', label: 'Interest Rate %', kind: 'number', aliases: ['rate', 'interest'] },
+  { key: 'loanTermYears', label: 'Loan Term (Yrs)', kind: 'number', aliases: ['term', 'loanterm'] },
+  { key: 'nightlyRate', label: 'Nightly Rate', kind: 'number', aliases: ['adr', 'nightly', 'averagedailyrate'] },
+  { key: 'occupancyRate', label: 'Occupancy %', kind: 'number', aliases: ['occupancy', 'occ'] },
+  { key: 'propertyTax', label: 'Property Tax (Yr)', kind: 'number', aliases: ['tax', 'taxes', 'annualtax'] },
+  { key: 'insurance', label: 'Insurance (Yr)', kind: 'number' },
+  { key: 'managementFeePercent', label: 'Mgmt Fee %', kind: 'number', aliases: ['management', 'managementfee', 'mgmt'] },
+  { key: 'hoa', label: 'HOA (Mo)', kind: 'number' },
+  { key: 'utilities', label: 'Utilities (Mo)', kind: 'number' },
+  { key: 'maintenance', label: 'Maintenance (Mo)', kind: 'number', aliases: ['repairs'] },
+  { key: 'snowRemoval', label: 'Snow Removal (Mo)', kind: 'number', aliases: ['snow'] },
+  { key: 'hotTubMaintenance', label: 'Hot Tub (Mo)', kind: 'number', aliases: ['hottub'] },
+  { key: 'otherExpenses', label: 'Other (Mo)', kind: 'number', aliases: ['other'] },
+  { key: 'status', label: 'Status', kind: 'status' },
+  { key: 'tags', label: 'Tags', kind: 'list' },
+  { key: 'images', label: 'Images', kind: 'list', aliases: ['image', 'imageurl', 'photos', 'photo'] },
+  { key: 'fairOfferRecommendation', label: 'Fair Offer', kind: 'text', aliases: ['offer', 'recommendation'] },
+  { key: 'aiDescription', label: 'Description', kind: 'text' },
+];
+
+// Column index -> field key, or '' to skip the column
+export type CsvMapping = (keyof Property | '')[];
+
+// Same starting assumptions as a property added by lookup
+const IMPORT_DEFAULTS: Omit<Property, 'id' | 'address' | 'price'> = {
+  images: [],
+  bedrooms: 3,
+  bathrooms: 2,
+  sqft: 1500,
+  downPaymentPercent: 20,
+  interestRate: 6.8,
+  loanTermYears: 30,
+  nightlyRate: 200,
+  occupancyRate: 60,
+  propertyTax: 5000,
+  insurance: 1500,
+  managementFeePercent: 25,
+  snowRemoval: 0,
+  hotTubMaintenance: 0,
+  utilities: 300,
+  maintenance: 250,
+  hoa: 0,
+  otherExpenses: 0,
+};
+
+const normalizeHeader = (text: string) => text.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Matches headers to fields by label, key or alias; unmatched columns are skipped
+export const guessCsvMapping = (headers: string[]): CsvMapping => {
+  const used = new Set<string>();
+  return headers.map(header => {
+    const name = normalizeHeader(header);
+    const field = CSV_FIELDS.find(f =>
+      !used.has(f.key) && [f.label, f.key, ...(f.aliases || [])].some(candidate => normalizeHeader(candidate) === name));
+    if (!field) return '';
+    used.add(field.key);
+    return field.key;
+  });
+};
+
+export const readCsv = (text: string): { headers: string[]; rows: string[][] } => {
+  const [headers = [], ...rows] = parseCsv(text.replace(/^\uFEFF/, ''));
+  return { headers: headers.map(h => h.trim()), rows };
+};
+
+const parseNumberCell = (text: string): number => parseFloat(text.replace(/[$,%\s]/g, ''));
+
+// A row whose ID matches one of `existing` updates only its mapped columns, keeping scenarios,
+// financing and the other nested assumptions a spreadsheet can't carry; unknown IDs start fresh
+export const csvToProperties = (rows: string[][], mapping: CsvMapping, existing: Property[] = []): ImportResult => {
+  const errors: string[] = [];
+  const properties: Property[] = [];
+  const existingById = new Map(existing.map(p => [p.id, p]));
+  if (!mapping.includes('address') || !mapping.includes('price')) {
+    return { properties, errors: ['Map a column to Address and one to Price before importing.'] };
+  }
+
+  rows.forEach((row, r) => {
+    const label = `Row ${r + 2}`; // the header is row 1
+    const values: Record<string, unknown> = {};
+    const rowErrors: string[] = [];
+
+    mapping.forEach((key, col) => {
+      const field = CSV_FIELDS.find(f => f.key === key);
+      // Undo the quote export adds in front of formula-like text
+      const cell = (row[col] || '').trim().replace(/^'(?=[=+\-@])/, '');
+      if (!field || !cell) return;
+      switch (field.kind) {
+        case 'number': {
+          const value = parseNumberCell(cell);
+          if (isNaN(value)) rowErrors.push(`${label}: "${cell}" is not a number for ${field.label}`);
+          else values[field.key] = value;
+          break;
+        }
+        case 'list':
+          values[field.key] = cell.split(';').map(v => v.trim()).filter(Boolean);
+          break;
+        case 'status':
+          values[field.key] = /own/i.test(cell) ? 'owned' : 'prospect';
+          break;
+        default:
+          values[field.key] = cell;
+      }
+    });
+
+    if (!values.address) rowErrors.push(`${label}: address is empty`);
+    if (values.price === undefined) rowErrors.push(`${label}: price is empty`);
+    if (rowErrors.length > 0) {
+      errors.push(...rowErrors);
+      return;
+    }
+    const { id, ...fields } = values;
+    const match = typeof id === 'string' ? existingById.get(id) : undefined;
+    properties.push(match ? { ...match, ...fields } : { ...IMPORT_DEFAULTS, ...fields, id: newId() } as Property);
+  });
+
+  return { properties, errors };
+};
+
+export const portfolioToCsv = (properties: Property[]): string =>
+  toCsv([
+    CSV_FIELDS.map(f => f.label),
+    ...properties.map(p => CSV_FIELDS.map(f => {
+      const value = p[f.key];
+      if (Array.isArray(value)) return value.join('; ');
+      return typeof value === 'number' || typeof value === 'string' ? value : '';
+    })),
+  ]);
@@ -0,0 +1,112 @@
+import { Property, ProjectionAssumptions, ProjectionResult, ProjectionYear } from '../types';
+import { calculateMetrics } from './calculations';
+import { buildAmortizationSchedule, balanceAfter } from './amortization';
+
+export const DEFAULT_PROJECTION: ProjectionAssumptions = {
+  holdYears: 10,
+  appreciationRate: 3,
+  rentGrowthRate: 2.5,
+  expenseInflationRate: 3,
+  discountRate: 8,
+  sellingCostPercent: 6,
+};
+
+// Net Present Value where cashFlows[0] happens today (undiscounted)
+export const calculateNPV = (ratePercent: number, cashFlows: number[]): number => {
+  const r = ratePercent / 100;
+  return cashFlows.reduce((sum, cf, t) => sum + cf / Math.pow(1 + r, t), 0);
+};
+
+// Internal Rate of Return (%) via bisection - robust for the single sign change
+// pattern of a buy/hold/sell deal. Returns null when no root is bracketed.
+export const calculateIRR = (cashFlows: number[]): number | null => {
+  let low = -99.99;
+  let high = 1000;
+  let npvLow = calculateNPV(low, cashFlows);
+  const npvHigh = calculateNPV(high, cashFlows);
+  if (npvLow * npvHigh > 0) return null;
+
+  for (let i = 0; i < 200; i++) {
+    const mid = (low + high) / 2;
+    const npvMid = calculateNPV(mid, cashFlows);
+    if (Math.abs(npvMid) < 1e-6) return mid;
+    if (npvLow * npvMid < 0) {
+      high = mid;
+    } else {
+      low = mid;
+      npvLow = npvMid;
+    }
+  }
+  return (low + high) / 2;
+};
+
+export const buildProjection = (
+  p: Property,
+  assumptions: ProjectionAssumptions = p.projection || DEFAULT_PROJECTION
+): ProjectionResult => {
+  const base = calculateMetrics(p);
+  const schedule = buildAmortizationSchedule(p);
+  const initialInvestment = base.totalInvestment;
+
+  // Management, booking fees and turnovers scale with revenue; every other expense line inflates on its own
+  const baseAnnualIncome = base.monthlyIncome * 12;
+  const baseVariableExpenses = base.monthlyVariableExpenses * 12;
+  const baseFixedExpenses = base.monthlyExpenses * 12 - baseVariableExpenses;
+
+  const years: ProjectionYear[] = [];
+  let cumulativeCashFlow = 0;
+
+  for (let year = 1; year <= assumptions.holdYears; year++) {
+    const rentFactor = Math.pow(1 + assumptions.rentGrowthRate / 100, year - 1);
+    const inflationFactor = Math.pow(1 + assumptions.expenseInflationRate / 100, year - 1);
+
+    const grossIncome = baseAnnualIncome * rentFactor;
+    const operatingExpenses = baseVariableExpenses * rentFactor + baseFixedExpenses * inflationFactor;
+    const noi = grossIncome - operatingExpenses;
+    const yearRows = schedule.rows.slice((year - 1) * 12, year * 12);
+    const debtService = yearRows.reduce((sum, r) => sum + r.payment + r.pmi, 0);
+    const extraPrincipal = yearRows.reduce((sum, r) => sum + r.extraPrincipal, 0);
+    const cashFlow = noi - debtService;
+    // Prepayments still leave the investor's pocket; they come back through the smaller payoff at sale
+    cumulativeCashFlow += cashFlow - extraPrincipal;
+
+    const propertyValue = p.price * Math.pow(1 + assumptions.appreciationRate / 100, year);
+    const loanBalance = balanceAfter(schedule, year * 12);
+    const equity = propertyValue - loanBalance;
+
+    years.push({
+      year,
+      grossIncome,
+      operatingExpenses,
+      noi,
+      debtService,
+      extraPrincipal,
+      cashFlow,
+      cumulativeCashFlow,
+      propertyValue,
+      loanBalance,
+      equity,
+      totalReturn: cumulativeCashFlow + equity - initialInvestment,
+    });
+  }
+
+  const exit = years[years.length - 1];
+  const netSaleProceeds = exit
+    ? exit.propertyValue * (1 - assumptions.sellingCostPercent / 100) - exit.loanBalance
+    : 0;
+
+  const cashFlows = [-initialInvestment, ...years.map(y => y.cashFlow - y.extraPrincipal)];
+  if (exit) cashFlows[cashFlows.length - 1] += netSaleProceeds;
+
+  const totalProfit = cumulativeCashFlow + netSaleProceeds - initialInvestment;
+
+  return {
+    years,
+    initialInvestment,
+    netSaleProceeds,
+    totalProfit,
+    equityMultiple: initialInvestment > 0 ? (cumulativeCashFlow + netSaleProceeds) / initialInvestment : 0,
+    irr: exit ? calculateIRR(cashFlows) : null,
+    npv: calculateNPV(assumptions.discountRate, cashFlows),
+  };
+};
@@ -0,0 +1,118 @@
+import { Property, PropertyScenario } from '../types';
+import { buildComparison, ComparisonRow } from './comparison';
+
+// Fields describing the listing or the user's bookkeeping rather than an assumption.
+// Edits to these always land on the base property, whichever scenario is active.
+const SHARED_FIELDS: (keyof Property)[] = [
+  'id', 'address', 'images', 'aiDescription', 'fairOfferRecommendation', 'marketResearch',
+  'isFavorite', 'status', 'tags', 'scenarios', 'activeScenarioId',
+];
+
+export type ScenarioPreset = 'conservative' | 'aggressive' | 'blank';
+
+export const SCENARIO_PRESET_LABELS: Record<ScenarioPreset, string> = {
+  conservative: 'Conservative',
+  aggressive: 'Aggressive',
+  blank: 'Blank',
+};
+
+export const getActiveScenario = (p: Property): PropertyScenario | undefined =>
+  p.scenarios?.find(s => s.id === p.activeScenarioId);
+
+export const applyScenario = (p: Property, scenario?: PropertyScenario): Property =>
+  scenario ? { ...p, ...scenario.overrides } : p;
+
+// The numbers the rest of the app should show for a property
+export const applyActiveScenario = (p: Property): Property => applyScenario(p, getActiveScenario(p));
+
+// Routes an edit made against the active scenario back onto the stored property: changed
+// assumptions become overrides of that scenario (dropped again once they match base),
+// shared fields update base. Without an active scenario the edit is returned as-is.
+export const recordScenarioEdit = (base: Property, next: Property): Property => {
+  const scenario = getActiveScenario(base);
+  if (!scenario) return next;
+
+  const resolved = applyScenario(base, scenario);
+  const updated: Record<string, unknown> = { ...base };
+  const overrides: Record<string, unknown> = { ...scenario.overrides };
+  const keys = new Set([...Object.keys(resolved), ...Object.keys(next)] as (keyof Property)[]);
+
+  keys.forEach(key => {
+    if (next[key] === resolved[key]) return;
+    if (SHARED_FIELDS.includes(key)) updated[key] = next[key];
+    else if (next[key] === base[key]) delete overrides[key];
+    else overrides[key] = next[key];
+  });
+
+  const result = updated as unknown as Property;
+  return {
+    ...result,
+    scenarios: (result.scenarios || []).map(s => s.id === scenario.id ? { ...s, overrides: overrides as Partial<Property> } : s),
+  };
+};
+
+// Presets move the headline inputs only; properties driven by a seasonal calendar, rent roll
+// or loan stack need those edited while the scenario is active.
+export const buildScenarioPreset = (p: Property, preset: ScenarioPreset): Partial<Property> => {
+  switch (preset) {
+    case 'conservative':
+      return {
+        nightlyRate: Math.round(p.nightlyRate * 0.9),
+        occupancyRate: Math.max(p.occupancyRate - 10, 0),
+        interestRate: p.interestRate + 1,
+        maintenance: Math.round(p.maintenance * 1.25),
+      };
+    case 'aggressive':
+      return {
+        nightlyRate: Math.round(p.nightlyRate * 1.1),
+        occupancyRate: Math.min(p.occupancyRate + 5, 100),
+      };
+    case 'blank':
+      return {};
+  }
+};
+
+export const createScenario = (name: string, overrides: Partial<Property>): PropertyScenario => ({
+  id: Date.now().toString() + Math.random(),
+  name,
+  overrides: { ...overrides },
+});
+
+export const cloneScenario = (source: PropertyScenario): PropertyScenario =>
+  createScenario(`${source.name} (copy)`, source.overrides);
+
+// Financing inputs the property comparison doesn't list
+const FINANCING_ROWS: { label: string; kind: ComparisonRow['kind']; value: (p: Property) => number }[] = [
+  { label: 'Down Payment', kind: 'percent', value: p => p.downPaymentPercent },
+  { label: 'Interest Rate', kind: 'percent', value: p => p.interestRate },
+  { label: 'Loan Term (Yrs)', kind: 'number', value: p => p.loanTermYears },
+  { label: 'Extra Principal (Mo)', kind: 'currency', value: p => p.extraPrincipalPayment || 0 },
+];
+
+// Base plus every scenario, as comparison rows (AI text is shared, so it's left out)
+export const buildScenarioDiff = (p: Property): { columns: string[]; rows: ComparisonRow[] } => {
+  const scenarios = p.scenarios || [];
+  const variants = [p, ...scenarios.map(s => applyScenario(p, s))];
+
+  const financing: ComparisonRow[] = FINANCING_ROWS.map(row => ({
+    section: 'Financing',
+    label: row.label,
+    kind: row.kind,
+    values: variants.map(row.value),
+  }));
+  const overridden: ComparisonRow = {
+    section: 'Financing',
+    label: 'Overridden Inputs',
+    kind: 'text',
+    values: ['', ...scenarios.map(s => Object.keys(s.overrides).join(', '))],
+  };
+
+  return {
+    columns: ['Base', ...scenarios.map(s => s.name)],
+    rows: [
+      ...financing,
+      overridden,
+      ...buildComparison(variants).filter(row => row.section !== 'AI Analysis'),
+    ],
+  };
+};
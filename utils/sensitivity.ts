@@ -0,0 +1,129 @@
+import { Property, CalculationResult } from '../types';
+import { calculateMetrics } from './calculations';
+
+export type SensitivityVariable =
+  | 'nightlyRate'
+  | 'occupancyRate'
+  | 'interestRate'
+  | 'price'
+  | 'managementFeePercent'
+  | 'propertyTax'
+  | 'insurance'
+  | 'utilities'
+  | 'maintenance'
+  | 'hoa'
+  | 'snowRemoval'
+  | 'hotTubMaintenance'
+  | 'otherExpenses';
+
+export type SensitivityMetric = 'cashFlow' | 'cashOnCashReturn';
+
+export const SENSITIVITY_LABELS: Record<SensitivityVariable, string> = {
+  nightlyRate: 'Nightly Rate',
+  occupancyRate: 'Occupancy',
+  interestRate: 'Interest Rate',
+  price: 'Purchase Price',
+  managementFeePercent: 'Mgmt Fee',
+  propertyTax: 'Property Tax',
+  insurance: 'Insurance',
+  utilities: 'Utilities',
+  maintenance: 'Maintenance',
+  hoa: 'HOA',
+  snowRemoval: 'Snow Removal',
+  hotTubMaintenance: 'Hot Tub',
+  otherExpenses: 'Other Expenses',
+};
+
+export const SENSITIVITY_VARIABLES = Object.keys(SENSITIVITY_LABELS) as SensitivityVariable[];
+
+// Scales one assumption by `factor`, following it into the seasonal calendar, rent roll and loan tranches
+export const scaleVariable = (p: Property, variable: SensitivityVariable, factor: number): Property => {
+  switch (variable) {
+    case 'nightlyRate':
+      return {
+        ...p,
+        nightlyRate: p.nightlyRate * factor,
+        seasonality: p.seasonality?.map(m => ({ ...m, weekdayRate: m.weekdayRate * factor, weekendRate: m.weekendRate * factor })),
+        units: p.units?.map(u => u.strategy === 'str' ? { ...u, rate: u.rate * factor } : u),
+      };
+    case 'occupancyRate':
+      return {
+        ...p,
+        occupancyRate: Math.min(p.occupancyRate * factor, 100),
+        seasonality: p.seasonality?.map(m => ({
+          ...m,
+          weekdayOccupancy: Math.min(m.weekdayOccupancy * factor, 100),
+          weekendOccupancy: Math.min(m.weekendOccupancy * factor, 100),
+        })),
+        units: p.units?.map(u => ({ ...u, occupancyRate: Math.min(u.occupancyRate * factor, 100) })),
+      };
+    case 'managementFeePercent':
+      return {
+        ...p,
+        managementFeePercent: p.managementFeePercent * factor,
+        units: p.units?.map(u => ({ ...u, managementFeePercent: u.managementFeePercent * factor })),
+      };
+    case 'interestRate':
+      return {
+        ...p,
+        interestRate: p.interestRate * factor,
+        financing: p.financing?.map(t => ({
+          ...t,
+          interestRate: t.interestRate * factor,
+          armResetRate: t.armResetRate !== undefined ? t.armResetRate * factor : undefined,
+        })),
+      };
+    default:
+      return { ...p, [variable]: (p[variable] || 0) * factor };
+  }
+};
+
+export interface TornadoBar {
+  variable: SensitivityVariable;
+  label: string;
+  low: number; // metric with the input decreased
+  high: number; // metric with the input increased
+  swing: number; // |high - low|
+}
+
+// One-at-a-time sensitivity, ranked by how far each input moves the metric
+export const runSensitivity = (
+  p: Property,
+  rangePercent: number,
+  metric: SensitivityMetric,
+  variables: SensitivityVariable[] = SENSITIVITY_VARIABLES
+): { base: number; bars: TornadoBar[] } => {
+  const read = (m: CalculationResult) => m[metric];
+  const base = read(calculateMetrics(p));
+
+  const bars = variables.map(variable => {
+    const low = read(calculateMetrics(scaleVariable(p, variable, 1 - rangePercent / 100)));
+    const high = read(calculateMetrics(scaleVariable(p, variable, 1 + rangePercent / 100)));
+    return { variable, label: SENSITIVITY_LABELS[variable], low, high, swing: Math.abs(high - low) };
+  });
+
+  return { base, bars: bars.filter(b => b.swing > 0).sort((a, b) => b.swing - a.swing) };
+};
+
+export interface SensitivityGrid {
+  xSteps: number[]; // % change applied to the x variable
+  ySteps: number[];
+  values: number[][]; // [y][x]
+}
+
+// Two-variable grid, e.g. occupancy × nightly rate
+export const runTwoWayGrid = (
+  p: Property,
+  xVariable: SensitivityVariable,
+  yVariable: SensitivityVariable,
+  rangePercent: number,
+  metric: SensitivityMetric,
+  stepsPerSide: number = 2
+): SensitivityGrid => {
+  const steps = Array.from({ length: stepsPerSide * 2 + 1 }, (_, i) => ((i - stepsPerSide) / stepsPerSide) * rangePercent);
+  const values = steps.map(dy => {
+    const yScaled = scaleVariable(p, yVariable, 1 + dy / 100);
+    return steps.map(dx => calculateMetrics(scaleVariable(yScaled, xVariable, 1 + dx / 100))[metric]);
+  });
+  return { xSteps: steps, ySteps: steps, values };
+};
@@ -0,0 +1,84 @@
+import { Property } from '../types';
+import { migrateProperty, SCHEMA_VERSION } from './migrations';
+import { isObject, validateProperty } from './portfolioFile';
+
+// Shareable deal links: the whole property, deflated and base64url-encoded into the URL fragment
+// as #deal=<schemaVersion>.<payload>. Fragments never reach a server, and the schema version lets
+// old links be migrated like old backups.
+
+const LINK_PATTERN = /^#?deal=(\d+)\.([A-Za-z0-9_-]+)$/;
+
+// Remote photo URLs travel with the link; uploaded photos (data URLs) would make it huge
+const MAX_IMAGE_URL_LENGTH = 2000;
+
+export const DAMAGED_LINK_ERROR = 'The link is incomplete or damaged. Ask the sender to copy it again.';
+
+export interface SharedDealResult {
+  property: Property | null; // as sent, including its original id
+  error?: string; // safe to show the user
+}
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string): Uint8Array<ArrayBuffer> =>
+  Uint8Array.from(atob(text.replace(/-/g, '+').replace(/_/g, '/')), c => c.charCodeAt(0));
+
+const deflate = async (text: string): Promise<Uint8Array> => {
+  const stream = new Blob([text]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const inflate = async (bytes: Uint8Array<ArrayBuffer>): Promise<string> => {
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Response(stream).text();
+};
+
+export const isShareLink = (hash: string): boolean => LINK_PATTERN.test(hash);
+
+// Full URL to this app that opens `p` (base numbers plus scenarios) on another device
+export const createShareLink = async (p: Property): Promise<string> => {
+  const shared: Property = {
+    ...p,
+    images: p.images.filter(url => !url.startsWith('data:') && url.length <= MAX_IMAGE_URL_LENGTH),
+  };
+  const payload = toBase64Url(await deflate(JSON.stringify(shared)));
+  return `${window.location.origin}${window.location.pathname}#deal=${SCHEMA_VERSION}.${payload}`;
+};
+
+// The recipient's own copy: a new id, and none of the sender's portfolio status, favourite
+// or scenario selection, so it lands as a prospect showing the base numbers
+export const toImportedCopy = (shared: Property): Property => ({
+  ...shared,
+  id: Date.now().toString() + Math.random(),
+  status: 'prospect',
+  isFavorite: false,
+  activeScenarioId: undefined,
+});
+
+export const readShareLink = async (hash: string): Promise<SharedDealResult> => {
+  const match = LINK_PATTERN.exec(hash);
+  if (!match) return { property: null, error: 'This is not a deal link.' };
+  const version = Number(match[1]) || 1;
+  if (version > SCHEMA_VERSION) {
+    return { property: null, error: `This link was made by a newer version of the app (schema ${version}). Update the app and open it again.` };
+  }
+
+  let record: unknown;
+  try {
+    record = JSON.parse(await inflate(fromBase64Url(match[2])));
+  } catch {
+    return { property: null, error: DAMAGED_LINK_ERROR };
+  }
+  if (!isObject(record)) {
+    return { property: null, error: 'The link does not contain a property.' };
+  }
+
+  const property = migrateProperty(record, version);
+  const errors = validateProperty(property, 'Shared property');
+  if (errors.length > 0) return { property: null, error: errors[0] };
+  return { property };
+};
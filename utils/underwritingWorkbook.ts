@@ -0,0 +1,583 @@
+import { LeaseStrategy, Property, RentalStrategy, TenantPayableExpense } from '../types';
+import {
+  calculateMetrics,
+  calculateRentRoll,
+  DAYS_IN_MONTH,
+  getLeaseAssumptions,
+  MONTH_LABELS,
+  NO_STR_FEES,
+  RENTAL_STRATEGIES,
+  STRATEGY_LABELS,
+} from './calculations';
+import { addMonths, buildAmortizationSchedule, getLoanTranches, getTrancheAmount, LOAN_TYPE_LABELS } from './amortization';
+import { getActiveScenario } from './scenarios';
+import { buildXlsx, cellRef, columnRange, XLSX_MIME_TYPE, XlsxCell, XlsxRow, XlsxSheet, XlsxStyle } from './xlsx';
+import { downloadFile, toFileName } from './csv';
+
+// Underwriting workbook: every input on one sheet, and calculateMetrics rebuilt as Excel formulas
+// that reference it, so lenders and partners can change an assumption and see the numbers move.
+// The app's own results sit next to each formula as a cross-check.
+
+const INPUTS = 'Inputs';
+const CALCS = 'Calculations';
+const AMORTIZATION = 'Amortization';
+const EXPENSES = 'Expenses';
+
+// Excel rejects longer cell text
+const MAX_CELL_TEXT = 32000;
+
+const LEASE_STRATEGIES: LeaseStrategy[] = ['mtr', 'ltr'];
+
+const PASS_THROUGH_LABELS: Record<TenantPayableExpense, string> = {
+  utilities: 'Utilities',
+  snowRemoval: 'Snow Removal',
+  hotTubMaintenance: 'Hot Tub',
+};
+
+// Fields the structured sections of the inputs sheet already cover
+const STRUCTURED_FIELDS = new Set<keyof Property>([
+  'id', 'address', 'status', 'rentalStrategy', 'price', 'bedrooms', 'bathrooms', 'sqft', 'tags', 'isFavorite',
+  'downPaymentPercent', 'interestRate', 'loanTermYears', 'extraPrincipalPayment', 'loanStartDate',
+  'nightlyRate', 'occupancyRate', 'managementFeePercent', 'propertyTax', 'insurance', 'hoa', 'maintenance',
+  'otherExpenses', 'utilities', 'snowRemoval', 'hotTubMaintenance', 'strFees', 'leaseStrategies', 'seasonality',
+  'financing', 'acquisitionCosts', 'units',
+]);
+
+type AppValue = number | boolean | string;
+
+const addRow = (sheet: XlsxSheet, row: XlsxRow): number => sheet.rows.push(row) - 1;
+const header = (text: string): XlsxCell => ({ value: text, style: 'header' });
+const section = (text: string): XlsxCell => ({ value: text, style: 'section' });
+const formula = (f: string, style?: XlsxStyle, value?: AppValue): XlsxCell => ({
+  formula: f,
+  style,
+  value: typeof value === 'number' && !isFinite(value) ? 'N/A' : value,
+});
+const appCell = (value: AppValue | undefined, style?: XlsxStyle): XlsxCell | null =>
+  value === undefined ? null : { value, style };
+
+// Picks the active strategy's value: IF(strategy="mtr", ..., IF(strategy="ltr", ..., str))
+const pick = (strategy: string, refs: Record<RentalStrategy, string>) =>
+  `IF(${strategy}="mtr",${refs.mtr},IF(${strategy}="ltr",${refs.ltr},${refs.str}))`;
+
+// Nested objects become dotted paths so any saved field lands in a cell of its own
+const flattenField = (key: string, value: unknown, out: [string, string | number | boolean][]) => {
+  if (value === undefined || value === null) return;
+  if (Array.isArray(value)) {
+    if (value.every(v => typeof v !== 'object')) out.push([key, value.join('; ')]);
+    else value.forEach((v, i) => flattenField(`${key}[${i}]`, v, out));
+  } else if (typeof value === 'object') {
+    Object.entries(value as Record<string, unknown>).forEach(([k, v]) => flattenField(`${key}.${k}`, v, out));
+  } else if (typeof value === 'string') {
+    out.push([key, value.startsWith('data:') ? '[embedded image]' : value.slice(0, MAX_CELL_TEXT)]);
+  } else if (typeof value === 'number' || typeof value === 'boolean') {
+    out.push([key, value]);
+  }
+};
+
+// `p` is the property as shown, i.e. with its active scenario applied
+export const buildUnderwritingWorkbook = (p: Property): XlsxSheet[] => {
+  const m = calculateMetrics(p);
+  const fees = p.strFees || NO_STR_FEES;
+  const tranches = getLoanTranches(p);
+  const units = p.units || [];
+  const hasUnits = units.length > 0;
+
+  // --- Inputs ---
+  const inputs: XlsxSheet = { name: INPUTS, rows: [], columnWidths: [34, 20, 36, 14, 14, 14, 14, 14, 14, 14, 14, 14] };
+  const input = (label: string, key: string, value: string | number | boolean | undefined, note?: string): string => {
+    const row = addRow(inputs, [label, { value: value ?? '', style: 'input' }, note ? `${key} (${note})` : key]);
+    return cellRef(INPUTS, 1, row);
+  };
+
+  addRow(inputs, [header('Input'), header('Value'), header('Field')]);
+  addRow(inputs, ['Shaded cells are inputs; the other sheets recalculate from them.']);
+  addRow(inputs, []);
+
+  addRow(inputs, [section('Property')]);
+  input('Address', 'address', p.address);
+  input('ID', 'id', p.id);
+  input('Status', 'status', p.status || 'prospect');
+  const activeScenario = getActiveScenario(p);
+  if (activeScenario) addRow(inputs, ['Scenario', activeScenario.name, 'activeScenarioId']);
+  const strategy = input('Rental Strategy (str / mtr / ltr)', 'rentalStrategy', m.strategy);
+  const price = input('Purchase Price', 'price', p.price);
+  input('Bedrooms', 'bedrooms', p.bedrooms);
+  input('Bathrooms', 'bathrooms', p.bathrooms);
+  input('Sq Ft', 'sqft', p.sqft);
+  input('Tags', 'tags', (p.tags || []).join('; '));
+  input('Favorite', 'isFavorite', !!p.isFavorite);
+  addRow(inputs, []);
+
+  addRow(inputs, [section('Financing')]);
+  const downPayment = input('Down Payment %', 'downPaymentPercent', p.downPaymentPercent);
+  const interestRate = input('Interest Rate %', 'interestRate', p.interestRate);
+  const loanTerm = input('Loan Term (Yrs)', 'loanTermYears', p.loanTermYears);
+  const extraPrincipal = input('Extra Principal (Mo)', 'extraPrincipalPayment', p.extraPrincipalPayment || 0);
+  input('First Payment (YYYY-MM)', 'loanStartDate', p.loanStartDate || '');
+  addRow(inputs, []);
+
+  addRow(inputs, [section('Short-Term Rental')]);
+  const nightlyRate = input('Nightly Rate', 'nightlyRate', p.nightlyRate);
+  const occupancy = input('Occupancy %', 'occupancyRate', p.occupancyRate);
+  const managementFee = input('Management Fee % (of nightly revenue)', 'managementFeePercent', p.managementFeePercent);
+  const feeNote = p.strFees ? undefined : 'not modelled';
+  const avgStay = input('Average Stay (Nights)', 'strFees.averageStayNights', fees.averageStayNights, feeNote);
+  const cleaningFee = input('Cleaning Fee per Stay', 'strFees.cleaningFeePerStay', fees.cleaningFeePerStay, feeNote);
+  const cleaningCost = input('Cleaning Cost per Turnover', 'strFees.cleaningCostPerTurnover', fees.cleaningCostPerTurnover, feeNote);
+  const platformFee = input('Platform Fee %', 'strFees.platformFeePercent', fees.platformFeePercent, feeNote);
+  const cardFee = input('Card Fee %', 'strFees.cardFeePercent', fees.cardFeePercent, feeNote);
+  const lodgingTax = input('Lodging Tax %', 'strFees.lodgingTaxPercent', fees.lodgingTaxPercent, feeNote);
+  addRow(inputs, []);
+
+  addRow(inputs, [section('Operating Expenses')]);
+  const propertyTax = input('Property Tax (Yr)', 'propertyTax', p.propertyTax);
+  const insurance = input('Insurance (Yr)', 'insurance', p.insurance);
+  const hoa = input('HOA (Mo)', 'hoa', p.hoa);
+  const maintenance = input('Maintenance (Mo)', 'maintenance', p.maintenance);
+  const otherExpenses = input('Other (Mo)', 'otherExpenses', p.otherExpenses);
+  const utilities = input('Utilities (Mo)', 'utilities', p.utilities);
+  const snowRemoval = input('Snow Removal (Mo)', 'snowRemoval', p.snowRemoval);
+  const hotTub = input('Hot Tub (Mo)', 'hotTubMaintenance', p.hotTubMaintenance || 0);
+  const passThroughInputs: Record<TenantPayableExpense, string> = { utilities, snowRemoval, hotTubMaintenance: hotTub };
+  addRow(inputs, []);
+
+  const lease = {} as Record<LeaseStrategy, { rent: string; vacancy: string; managementFee: string; ownerPays: Record<TenantPayableExpense, string> }>;
+  LEASE_STRATEGIES.forEach(s => {
+    const assumptions = getLeaseAssumptions(p, s);
+    const note = p.leaseStrategies?.[s] ? undefined : 'default';
+    const key = `leaseStrategies.${s}`;
+    addRow(inputs, [section(STRATEGY_LABELS[s])]);
+    const ownerPays = {} as Record<TenantPayableExpense, string>;
+    lease[s] = {
+      rent: input('Monthly Rent', `${key}.monthlyRent`, assumptions.monthlyRent, note),
+      vacancy: input('Vacancy %', `${key}.vacancyPercent`, assumptions.vacancyPercent, note),
+      managementFee: input('Management Fee % (of rent)', `${key}.managementFeePercent`, assumptions.managementFeePercent, note),
+      ownerPays,
+    };
+    (Object.keys(PASS_THROUGH_LABELS) as TenantPayableExpense[]).forEach(expense => {
+      ownerPays[expense] = input(`Owner Pays ${PASS_THROUGH_LABELS[expense]} (1 = yes)`, `${key}.ownerPays`, assumptions.ownerPays.includes(expense) ? 1 : 0, note);
+    });
+    addRow(inputs, []);
+  });
+
+  const seasonal = p.seasonality?.length === 12 ? p.seasonality : null;
+  const months: { weekdayRate: string; weekendRate: string; weekdayOccupancy: string; weekendOccupancy: string }[] = [];
+  if (seasonal) {
+    addRow(inputs, [section('Seasonality (replaces the nightly rate and occupancy above)')]);
+    addRow(inputs, [header('Month'), header('Weekday Rate'), header('Weekend Rate'), header('Weekday Occ %'), header('Weekend Occ %')]);
+    seasonal.forEach((s, i) => {
+      const row = addRow(inputs, [
+        MONTH_LABELS[i],
+        { value: s.weekdayRate, style: 'input' },
+        { value: s.weekendRate, style: 'input' },
+        { value: s.weekdayOccupancy, style: 'input' },
+        { value: s.weekendOccupancy, style: 'input' },
+      ]);
+      months.push({
+        weekdayRate: cellRef(INPUTS, 1, row),
+        weekendRate: cellRef(INPUTS, 2, row),
+        weekdayOccupancy: cellRef(INPUTS, 3, row),
+        weekendOccupancy: cellRef(INPUTS, 4, row),
+      });
+    });
+    addRow(inputs, []);
+  }
+
+  addRow(inputs, [section(p.financing ? 'Loans' : 'Loan (from the financing inputs above)')]);
+  addRow(inputs, [
+    header('Loan'), header('Type'), header('LTV %'), header('Rate %'), header('Term (Yrs)'), header('IO Months'),
+    header('Points %'), header('PMI %'), header('ARM Fixed Yrs'), header('ARM Reset %'), header('Balloon Yr'), header('Min DSCR'),
+  ]);
+  const loans = tranches.map(t => {
+    const cell = (value: number | undefined): XlsxCell => ({ value: value ?? '', style: 'input' });
+    const row = addRow(inputs, p.financing
+      ? [t.label, LOAN_TYPE_LABELS[t.type], cell(t.ltvPercent), cell(t.interestRate), cell(t.termYears), cell(t.interestOnlyMonths),
+         cell(t.pointsPercent), cell(t.pmiRate), cell(t.armFixedYears), cell(t.armResetRate), cell(t.balloonYears), cell(t.minDscr)]
+      : [t.label, LOAN_TYPE_LABELS[t.type], formula(`100-${downPayment}`, undefined, t.ltvPercent), formula(interestRate, undefined, t.interestRate),
+         formula(loanTerm, undefined, t.termYears), 0, 0, 0]);
+    return {
+      ltv: cellRef(INPUTS, 2, row),
+      rate: cellRef(INPUTS, 3, row),
+      term: cellRef(INPUTS, 4, row),
+      interestOnly: cellRef(INPUTS, 5, row),
+      points: cellRef(INPUTS, 6, row),
+      pmi: cellRef(INPUTS, 7, row),
+    };
+  });
+  addRow(inputs, []);
+
+  const costs = p.acquisitionCosts;
+  let acquisition: { lenderFees: string; titleEscrow: string; inspection: string; points: string; otherClosing: string; furnishing: string; setup: string; rehab: string[] } | null = null;
+  addRow(inputs, [section('Acquisition Costs')]);
+  if (costs) {
+    acquisition = {
+      lenderFees: input('Lender Fees', 'acquisitionCosts.lenderFees', costs.lenderFees),
+      titleEscrow: input('Title & Escrow', 'acquisitionCosts.titleEscrow', costs.titleEscrow),
+      inspection: input('Inspection', 'acquisitionCosts.inspection', costs.inspection),
+      points: input('Points % (simple financing only)', 'acquisitionCosts.pointsPercent', costs.pointsPercent),
+      otherClosing: input('Other Closing', 'acquisitionCosts.otherClosing', costs.otherClosing),
+      furnishing: input('Furnishing', 'acquisitionCosts.furnishing', costs.furnishing),
+      setup: input('Setup', 'acquisitionCosts.setup', costs.setup),
+      rehab: costs.rehab.map((item, i) => input(`Rehab: ${item.label}`, `acquisitionCosts.rehab[${i}]`, item.amount)),
+    };
+  } else {
+    addRow(inputs, ['Not itemized: closing costs are estimated at 3% of the price.']);
+  }
+  addRow(inputs, []);
+
+  const unitInputs = units.map(() => ({ strategy: '', rate: '', occupancy: '', managementFee: '', expenses: '' }));
+  if (hasUnits) {
+    addRow(inputs, [section('Rent Roll (replaces the single-listing income above)')]);
+    addRow(inputs, [header('Unit'), header('Strategy (str / ltr / owner)'), header('Rate'), header('Occupancy %'), header('Mgmt Fee %'), header('Expenses (Mo)'), header('Beds'), header('Baths')]);
+    units.forEach((u, i) => {
+      const row = addRow(inputs, [
+        u.label,
+        { value: u.strategy, style: 'input' },
+        { value: u.rate, style: 'input' },
+        { value: u.occupancyRate, style: 'input' },
+        { value: u.managementFeePercent, style: 'input' },
+        { value: u.monthlyExpenses, style: 'input' },
+        u.bedrooms,
+        u.bathrooms,
+      ]);
+      unitInputs[i] = {
+        strategy: cellRef(INPUTS, 1, row),
+        rate: cellRef(INPUTS, 2, row),
+        occupancy: cellRef(INPUTS, 3, row),
+        managementFee: cellRef(INPUTS, 4, row),
+        expenses: cellRef(INPUTS, 5, row),
+      };
+    });
+    addRow(inputs, []);
+  }
+
+  const otherFields: [string, string | number | boolean][] = [];
+  (Object.keys(p) as (keyof Property)[])
+    .filter(key => !STRUCTURED_FIELDS.has(key))
+    .forEach(key => flattenField(key, p[key], otherFields));
+  if (otherFields.length > 0) {
+    addRow(inputs, [section('Other Saved Fields (not used by the formulas)')]);
+    otherFields.forEach(([key, value]) => addRow(inputs, [key, { value }]));
+  }
+
+  // --- Calculations ---
+  const calcs: XlsxSheet = { name: CALCS, rows: [], columnWidths: [40, 16, 16, 44, 14, 14, 14, 14, 14, 14, 14, 14, 14] };
+  const calc = (label: string, f: string, style: XlsxStyle = 'currency', app?: AppValue, note?: string): string => {
+    const cellStyle = typeof app === 'string' || typeof app === 'boolean' ? undefined : style;
+    const row = addRow(calcs, [label, formula(f, cellStyle, app), appCell(app, cellStyle), note ?? null]);
+    return cellRef(CALCS, 1, row);
+  };
+  const local = (column: number, row: number) => cellRef(CALCS, column, row);
+
+  addRow(calcs, [header('Calculation'), header('Formula'), header('App Value'), header('Notes')]);
+  addRow(calcs, []);
+
+  const bookingNet = `(1-${platformFee}/100-${cardFee}/100*(1+${lodgingTax}/100))`; // kept per $ of revenue after platform and card fees
+  const strRevenue = m.strRevenue;
+  let str: { income: string; managementFee: string; variable: string; occupancy: string } | null = null;
+  let unitTotals: { income: string; managementFee: string; variable: string; expenses: string; occupancy: string; slope: string; atZero: string; averageRate: string } | null = null;
+  let strSingle: { nightlyRevenue: string; nights: string; cleaningFees: string; cleaningCosts: string } | null = null;
+
+  if (!hasUnits) {
+    addRow(calcs, [section('Short-Term Bookings by Month')]);
+    addRow(calcs, [header('Month'), header('Days'), header('Booked Nights'), header('Nightly Revenue')]);
+    const first = calcs.rows.length;
+    MONTH_LABELS.forEach((label, i) => {
+      const row = calcs.rows.length;
+      const days = local(1, row);
+      const weekend = `${days}*2/7`; // Fri + Sat nights
+      const nights = seasonal
+        ? `(${days}-${weekend})*${months[i].weekdayOccupancy}/100+${weekend}*${months[i].weekendOccupancy}/100`
+        : `365*${occupancy}/100/12`;
+      const revenue = seasonal
+        ? `(${days}-${weekend})*${months[i].weekdayOccupancy}/100*${months[i].weekdayRate}+${weekend}*${months[i].weekendOccupancy}/100*${months[i].weekendRate}`
+        : `${nightlyRate}*${local(2, row)}`;
+      addRow(calcs, [label, DAYS_IN_MONTH[i], formula(nights, 'decimal'), formula(revenue, 'currency')]);
+    });
+    const last = calcs.rows.length - 1;
+    addRow(calcs, []);
+
+    addRow(calcs, [section('Short-Term Revenue (average month)')]);
+    const nights = calc('Booked Nights', `AVERAGE(${columnRange(CALCS, 2, first, last)})`, 'decimal');
+    const nightlyRevenue = calc('Nightly Revenue', `AVERAGE(${columnRange(CALCS, 3, first, last)})`, 'currency', strRevenue.nightlyRevenue);
+    const bookings = calc('Bookings', `${nights}/MAX(${avgStay},1)`, 'decimal', strRevenue.bookings);
+    const cleaningFees = calc('Cleaning Fees Collected', `${bookings}*${cleaningFee}`, 'currency', strRevenue.cleaningFees);
+    const gross = calc('Gross Booking Revenue', `${nightlyRevenue}+${cleaningFees}`, 'currency', strRevenue.grossRevenue);
+    const lodging = calc('Lodging Tax', `${gross}*${lodgingTax}/100`, 'currency', strRevenue.lodgingTax, 'Collected from guests and remitted; not income');
+    const platform = calc('Platform Fees', `${gross}*${platformFee}/100`, 'currency', strRevenue.platformFees);
+    const card = calc('Card Fees', `(${gross}+${lodging})*${cardFee}/100`, 'currency', strRevenue.cardFees);
+    const cleaningCosts = calc('Cleaning Costs', `${bookings}*${cleaningCost}`, 'currency', strRevenue.cleaningCosts);
+    const strManagement = calc('Management Fee', `${nightlyRevenue}*${managementFee}/100`, 'currency', undefined, 'On nightly revenue only');
+    const variable = calc('Variable Costs', `${strManagement}+${platform}+${card}+${cleaningCosts}`);
+    const strOccupancy = calc('Occupancy %', `${nights}*12/365*100`, 'percent');
+    str = { income: gross, managementFee: strManagement, variable, occupancy: strOccupancy };
+    strSingle = { nightlyRevenue, nights, cleaningFees, cleaningCosts };
+    addRow(calcs, []);
+  } else {
+    addRow(calcs, [section('Rent Roll (per unit, before shared costs)')]);
+    addRow(calcs, [
+      header('Unit'), header('Booked Nights'), header('Nightly Revenue'), header('Bookings'), header('Income'), header('Mgmt Fee'),
+      header('Variable Costs'), header('Expenses'), header('Occupancy × Income'), header('Rate Sensitivity'), header('Cash Flow at $0 Rate'),
+      header('STR Occupancy'), header('STR Rate × Occ'),
+    ]);
+    const rentRoll = calculateRentRoll(p);
+    const first = calcs.rows.length;
+    units.forEach((u, i) => {
+      const row = calcs.rows.length;
+      const { strategy: s, rate, occupancy: occ, managementFee: fee, expenses } = unitInputs[i];
+      const isStr = `${s}="str"`;
+      const [nights, revenue, bookings, income, mgmt, variable, total] = [1, 2, 3, 4, 5, 6, 7].map(c => local(c, row));
+      addRow(calcs, [
+        u.label,
+        formula(`IF(${isStr},365*${occ}/100/12,0)`, 'decimal'),
+        formula(`${rate}*${nights}`, 'currency'),
+        formula(`${nights}/MAX(${avgStay},1)`, 'decimal'),
+        formula(`IF(${isStr},${revenue}+${bookings}*${cleaningFee},IF(${s}="ltr",${rate}*${occ}/100,0))`, 'currency', rentRoll[i].monthlyIncome),
+        formula(`IF(${isStr},${revenue}*${fee}/100,IF(${s}="ltr",${income}*${fee}/100,0))`, 'currency'),
+        formula(`IF(${isStr},${mgmt}+${income}*${platformFee}/100+${income}*(1+${lodgingTax}/100)*${cardFee}/100+${bookings}*${cleaningCost},${mgmt})`, 'currency'),
+        formula(`${variable}+${expenses}`, 'currency', rentRoll[i].monthlyExpenses),
+        formula(`IF(${s}="owner",0,${occ}*${income})`, 'currency'),
+        formula(`IF(${isStr},${revenue}*(1-${fee}/100-${platformFee}/100-${cardFee}/100*(1+${lodgingTax}/100)),0)`, 'currency'),
+        formula(`IF(${isStr},${bookings}*${cleaningFee}*${bookingNet}-${bookings}*${cleaningCost}-${expenses},${income}-${total})`, 'currency'),
+        formula(`IF(${isStr},${occ},0)`, 'decimal'),
+        formula(`IF(${isStr},${rate}*${occ},0)`, 'currency'),
+      ]);
+    });
+    const last = calcs.rows.length - 1;
+    const sum = (column: number) => `SUM(${columnRange(CALCS, column, first, last)})`;
+    addRow(calcs, []);
+
+    addRow(calcs, [section('Rent Roll Totals')]);
+    const income = calc('Income', sum(4), 'currency', m.monthlyIncome);
+    unitTotals = {
+      income,
+      managementFee: calc('Management Fees', sum(5), 'currency', m.monthlyManagementFee),
+      variable: calc('Variable Costs', sum(6), 'currency', m.monthlyVariableExpenses),
+      expenses: calc('Unit Expenses incl. Variable', sum(7)),
+      occupancy: calc('Occupancy % (income-weighted)', `IF(${income}>0,${sum(8)}/${income},0)`, 'percent', m.occupancyRate),
+      slope: calc('Rate Sensitivity', sum(9), 'currency', undefined, 'Cash flow added per 100% of current STR rates'),
+      atZero: calc('Unit Cash Flow at $0 STR Rates', sum(10)),
+      averageRate: calc('Average STR Rate', `IF(${sum(11)}>0,${sum(12)}/${sum(11)},${nightlyRate})`),
+    };
+    addRow(calcs, []);
+  }
+
+  addRow(calcs, [section('Operating Costs')]);
+  const ownerCosts = calc('Owner Costs', `${propertyTax}/12+${insurance}/12+${maintenance}+${hoa}+${otherExpenses}`, 'currency', undefined, 'Tax, insurance, maintenance, HOA, other');
+  const siteCosts = calc('Site Costs', `${snowRemoval}+${hotTub}+${utilities}`, 'currency', undefined, 'Snow removal, hot tub, utilities');
+  addRow(calcs, []);
+
+  const operating = {} as Record<RentalStrategy, { income: string; expenses: string; managementFee: string; variable: string; occupancy: string }>;
+  RENTAL_STRATEGIES.forEach(s => {
+    const app = m.strategies[s];
+    addRow(calcs, [section(`${STRATEGY_LABELS[s]} Operating`)]);
+    if (unitTotals) {
+      operating[s] = {
+        income: calc('Income', unitTotals.income, 'currency', app.monthlyIncome, 'The rent roll sets the strategy per unit'),
+        expenses: calc('Operating Expenses', `${unitTotals.expenses}+${ownerCosts}+${siteCosts}`, 'currency', app.monthlyExpenses),
+        managementFee: unitTotals.managementFee,
+        variable: unitTotals.variable,
+        occupancy: unitTotals.occupancy,
+      };
+    } else if (s === 'str' && str) {
+      operating[s] = {
+        ...str,
+        income: calc('Income', str.income, 'currency', app.monthlyIncome),
+        expenses: calc('Operating Expenses', `${str.variable}+${ownerCosts}+${siteCosts}`, 'currency', app.monthlyExpenses),
+      };
+    } else if (s !== 'str') {
+      const l = lease[s];
+      const income = calc('Income', `${l.rent}*(1-${l.vacancy}/100)`, 'currency', app.monthlyIncome);
+      const mgmt = calc('Management Fee', `${income}*${l.managementFee}/100`);
+      const passThrough = calc('Owner-Paid Utilities & Site Costs',
+        (Object.keys(PASS_THROUGH_LABELS) as TenantPayableExpense[]).map(e => `${passThroughInputs[e]}*${l.ownerPays[e]}`).join('+'));
+      operating[s] = {
+        income,
+        managementFee: mgmt,
+        variable: mgmt,
+        expenses: calc('Operating Expenses', `${mgmt}+${ownerCosts}+${passThrough}`, 'currency', app.monthlyExpenses),
+        occupancy: calc('Occupancy %', `100-${l.vacancy}`, 'percent'),
+      };
+    }
+    addRow(calcs, []);
+  });
+
+  addRow(calcs, [section('Debt Service (first payment)')]);
+  const debt = tranches.map((t, i) => {
+    const l = loans[i];
+    const loan = calc(`${t.label}: Loan Amount`, `${price}*${l.ltv}/100`, 'currency', getTrancheAmount(p, t));
+    const scheduled = calc(`${t.label}: Scheduled P&I`, `IF(${l.term}*12-${l.interestOnly}>0,PMT(${l.rate}/1200,${l.term}*12-${l.interestOnly},-${loan}),0)`);
+    const payment = calc(`${t.label}: First Payment`, `IF(${l.interestOnly}>0,${loan}*${l.rate}/1200,${scheduled})`, 'currency', undefined, 'Interest only during any IO period');
+    const pmi = calc(`${t.label}: PMI`, `IF(AND(${l.pmi}>0,${price}>0,${l.ltv}/100>0.78),${loan}*${l.pmi}/1200,0)`, 'currency', undefined, 'Until the balance reaches 78% of the price');
+    const points = calc(`${t.label}: Points`, `${loan}*${l.points}/100`);
+    return { loan, scheduled, payment, pmi, points };
+  });
+  const debtService = calc('Monthly Debt Service', debt.map(d => `${d.payment}+${d.pmi}`).join('+'), 'currency', m.monthlyMortgage);
+  const loanTotal = calc('Total Loans', debt.map(d => d.loan).join('+'));
+  addRow(calcs, []);
+
+  addRow(calcs, [section('Acquisition')]);
+  const trancheFees = p.financing ? debt.map(d => d.points).join('+') : '0';
+  const down = calc('Down Payment', `${price}-${loanTotal}`);
+  const closing = acquisition
+    ? calc('Closing Costs', `${acquisition.lenderFees}+${acquisition.titleEscrow}+${acquisition.inspection}+${acquisition.otherClosing}+${p.financing ? `(${trancheFees})` : `${loanTotal}*${acquisition.points}/100`}`)
+    : calc('Closing Costs', `${price}*0.03+${trancheFees}`, 'currency', undefined, 'Estimated at 3% of price plus loan points');
+  const rehab = calc('Rehab', acquisition && acquisition.rehab.length > 0 ? acquisition.rehab.join('+') : '0');
+  const furnishing = calc('Furnishing & Setup', acquisition ? `${acquisition.furnishing}+${acquisition.setup}` : '0');
+  const totalInvestment = calc('Total Cash Invested', `${down}+${closing}+${rehab}+${furnishing}`, 'currency', m.totalInvestment);
+  addRow(calcs, []);
+
+  addRow(calcs, [section('Strategy Comparison')]);
+  addRow(calcs, [header('Strategy'), header('Cash Flow'), header('App Value'), header('Cash-on-Cash %'), header('Cap Rate %')]);
+  const cashFlows = {} as Record<RentalStrategy, string>;
+  const cocs = {} as Record<RentalStrategy, string>;
+  const caps = {} as Record<RentalStrategy, string>;
+  RENTAL_STRATEGIES.forEach(s => {
+    const row = calcs.rows.length;
+    const o = operating[s];
+    const cashFlow = local(1, row);
+    const app = m.strategies[s];
+    addRow(calcs, [
+      STRATEGY_LABELS[s],
+      formula(`${o.income}-${o.expenses}-${debtService}`, 'currency', app.cashFlow),
+      appCell(app.cashFlow, 'currency'),
+      formula(`IF(${totalInvestment}>0,${cashFlow}*12/${totalInvestment}*100,0)`, 'percent', app.cashOnCashReturn),
+      formula(`IF(${price}>0,(${o.income}-${o.expenses})*12/${price}*100,"N/A")`, 'percent', app.capRate),
+    ]);
+    cashFlows[s] = cashFlow;
+    cocs[s] = local(3, row);
+    caps[s] = local(4, row);
+  });
+  calc('Best Strategy (highest cash flow)',
+    `IF(AND(${cashFlows.ltr}>${cashFlows.str},${cashFlows.ltr}>${cashFlows.mtr}),"ltr",IF(${cashFlows.mtr}>${cashFlows.str},"mtr","str"))`, 'currency', m.bestStrategy);
+  addRow(calcs, []);
+
+  addRow(calcs, [section('Results (active strategy)')]);
+  const pickOperating = (key: keyof typeof operating.str) =>
+    pick(strategy, { str: operating.str[key], mtr: operating.mtr[key], ltr: operating.ltr[key] });
+  const income = calc('Monthly Income', pickOperating('income'), 'currency', m.monthlyIncome);
+  const expenses = calc('Monthly Operating Expenses', pickOperating('expenses'), 'currency', m.monthlyExpenses);
+  const activeManagement = calc('Management Fee', pickOperating('managementFee'), 'currency', m.monthlyManagementFee);
+  const activeVariable = calc('Variable Costs (incl. management)', pickOperating('variable'), 'currency', m.monthlyVariableExpenses);
+  const activeOccupancy = calc('Occupancy %', pickOperating('occupancy'), 'percent', m.occupancyRate);
+  const noi = calc('Net Operating Income (Mo)', `${income}-${expenses}`, 'currency', m.monthlyIncome - m.monthlyExpenses);
+  calc('Debt Service (Mo)', debtService, 'currency', m.monthlyMortgage);
+  const cashFlow = calc('Cash Flow (Mo)', `${noi}-${debtService}`, 'currency', m.cashFlow);
+  calc('Cash-on-Cash Return %', pick(strategy, cocs), 'percent', m.cashOnCashReturn);
+  calc('Cap Rate %', pick(strategy, caps), 'percent', m.capRate);
+  calc('Total Cash Invested', totalInvestment, 'currency', m.totalInvestment);
+  addRow(calcs, []);
+
+  addRow(calcs, [section('Underwriting Screens')]);
+  calc('DSCR', `IF(${debtService}>0,${noi}/${debtService},"N/A")`, 'decimal', m.dscr);
+  calc('Break-Even Occupancy %',
+    `IF(${income}-${activeVariable}>0,${activeOccupancy}*(${expenses}-${activeVariable}+${debtService})/(${income}-${activeVariable}),"N/A")`, 'percent', m.breakEvenOccupancy);
+  // STR cash flow is linear in the nightly rate, so its slope and value at $0 pin down the break-even
+  const rateSlope = unitTotals
+    ? unitTotals.slope
+    : calc('Rate Sensitivity', `${strSingle?.nightlyRevenue}*(1-${managementFee}/100-${platformFee}/100-${cardFee}/100*(1+${lodgingTax}/100))`, 'currency', undefined, 'STR cash flow added per 100% of current rates');
+  const cashFlowAtZero = calc('STR Cash Flow at $0 Rates',
+    unitTotals
+      ? `${unitTotals.atZero}-${ownerCosts}-${siteCosts}-${debtService}`
+      : `${strSingle?.cleaningFees}*${bookingNet}-${strSingle?.cleaningCosts}-${ownerCosts}-${siteCosts}-${debtService}`);
+  const averageRate = unitTotals
+    ? unitTotals.averageRate
+    : calc('Average Nightly Rate', `IF(${strSingle?.nights}>0,${strSingle?.nightlyRevenue}/${strSingle?.nights},${nightlyRate})`);
+  calc('Break-Even Nightly Rate', `IF(${rateSlope}>0,${averageRate}*MAX(0,-${cashFlowAtZero}/${rateSlope}),"N/A")`, 'currency', m.breakEvenNightlyRate);
+  calc('Gross Rent Multiplier', `IF(${income}>0,${price}/(${income}*12),"N/A")`, 'decimal', m.grossRentMultiplier);
+  calc('Operating Expense Ratio %', `IF(${income}>0,${expenses}/${income}*100,0)`, 'percent', m.operatingExpenseRatio);
+  calc('Passes 1% Rule', `${income}>=${price}*0.01`, undefined, m.passesOnePercentRule);
+  calc('Passes 50% Rule', `${income}*0.5-${debtService}>=0`, undefined, m.passesFiftyPercentRule);
+
+  // --- Amortization ---
+  const schedule = buildAmortizationSchedule(p);
+  const amortization: XlsxSheet = { name: AMORTIZATION, rows: [], columnWidths: [10, 12, 16, 16, 16, 16, 14, 18] };
+  const summaryRow = addRow(amortization, ['Total Interest']);
+  addRow(amortization, ['Total Paid']);
+  addRow(amortization, []);
+  addRow(amortization, [header('Period'), header('Date'), header('Payment (P&I)'), header('Principal'), header('Interest'), header('Extra Principal'), header('PMI'), header('Balance')]);
+  const first = amortization.rows.length;
+  const single = tranches[0];
+  // A single fixed / IO loan is rebuilt as formulas; ARM resets and balloons stay as computed values
+  const live = tranches.length === 1 && single.type !== 'arm' && !single.balloonYears;
+  const startDate = p.loanStartDate || new Date().toISOString().slice(0, 7);
+  if (live) {
+    const l = loans[0];
+    for (let i = 0; i < single.termYears * 12; i++) {
+      const row = amortization.rows.length;
+      const at = (column: number) => cellRef(AMORTIZATION, column, row);
+      const previous = i === 0 ? debt[0].loan : cellRef(AMORTIZATION, 7, row - 1);
+      const app = schedule.rows[i];
+      addRow(amortization, [
+        i + 1,
+        addMonths(startDate, i),
+        formula(`${at(3)}+${at(4)}`, 'currency', app?.payment ?? 0),
+        formula(`IF(${at(0)}<=${l.interestOnly},0,MAX(MIN(${debt[0].scheduled}-${at(4)},${previous}),0))`, 'currency', app?.principal ?? 0),
+        formula(`${previous}*${l.rate}/1200`, 'currency', app?.interest ?? 0),
+        formula(`MAX(MIN(${extraPrincipal},${previous}-${at(3)}),0)`, 'currency', app?.extraPrincipal ?? 0),
+        formula(`IF(AND(${l.pmi}>0,${price}>0,${previous}/${price}>0.78),${debt[0].loan}*${l.pmi}/1200,0)`, 'currency', app?.pmi ?? 0),
+        formula(`MAX(${previous}-${at(3)}-${at(5)},0)`, 'currency', app?.balance ?? 0),
+      ]);
+    }
+  } else {
+    schedule.rows.forEach(r => {
+      addRow(amortization, [r.period, r.date, { value: r.payment, style: 'currency' }, { value: r.principal, style: 'currency' },
+        { value: r.interest, style: 'currency' }, { value: r.extraPrincipal, style: 'currency' }, { value: r.pmi, style: 'currency' },
+        { value: r.balance, style: 'currency' }]);
+    });
+    addRow(amortization, []);
+    addRow(amortization, ['Computed by the app: schedules with several loans, ARM resets or balloons are not rebuilt as formulas.']);
+  }
+  const last = Math.max(first, amortization.rows.length - 1);
+  const amortizationSum = (column: number) => `SUM(${columnRange(AMORTIZATION, column, first, last)})`;
+  amortization.rows[summaryRow].push(formula(amortizationSum(4), 'currency', schedule.totalInterest));
+  amortization.rows[summaryRow + 1].push(formula(`${amortizationSum(2)}+${amortizationSum(5)}+${amortizationSum(6)}`, 'currency', schedule.totalPaid));
+
+  // --- Expenses ---
+  const expenseSheet: XlsxSheet = { name: EXPENSES, rows: [], columnWidths: [36, 16, 16, 14] };
+  addRow(expenseSheet, [header('Expense'), header('Monthly'), header('Annual'), header('% of Income')]);
+  const expenseFirst = expenseSheet.rows.length;
+  const expenseLine = (label: string, f: string) => {
+    const row = expenseSheet.rows.length;
+    const monthly = cellRef(EXPENSES, 1, row);
+    addRow(expenseSheet, [
+      label,
+      formula(f, 'currency'),
+      formula(`${monthly}*12`, 'currency'),
+      formula(`IF(${income}>0,${monthly}/${income}*100,0)`, 'percent'),
+    ]);
+  };
+  expenseLine('Property Tax', `${propertyTax}/12`);
+  expenseLine('Insurance', `${insurance}/12`);
+  expenseLine('HOA', hoa);
+  expenseLine('Maintenance', maintenance);
+  expenseLine('Other', otherExpenses);
+  (Object.keys(PASS_THROUGH_LABELS) as TenantPayableExpense[]).forEach(e => {
+    // Leases can hand these to the tenant; a rent roll always carries them
+    expenseLine(PASS_THROUGH_LABELS[e], hasUnits
+      ? passThroughInputs[e]
+      : `${passThroughInputs[e]}*${pick(strategy, { str: '1', mtr: lease.mtr.ownerPays[e], ltr: lease.ltr.ownerPays[e] })}`);
+  });
+  expenseLine('Management Fee', activeManagement);
+  expenseLine('Booking Fees & Cleaning', `${activeVariable}-${activeManagement}`);
+  if (hasUnits) expenseLine('Unit-Level Expenses', unitInputs.map(u => u.expenses).join('+'));
+  const expenseLast = expenseSheet.rows.length - 1;
+  const totalRow = expenseSheet.rows.length;
+  const totalOperating = cellRef(EXPENSES, 1, totalRow);
+  addRow(expenseSheet, [
+    section('Total Operating Expenses'),
+    formula(`SUM(${columnRange(EXPENSES, 1, expenseFirst, expenseLast)})`, 'currency', m.monthlyExpenses),
+    formula(`${totalOperating}*12`, 'currency'),
+    formula(`IF(${income}>0,${totalOperating}/${income}*100,0)`, 'percent'),
+  ]);
+  addRow(expenseSheet, []);
+  addRow(expenseSheet, ['Debt Service', formula(debtService, 'currency', m.monthlyMortgage), formula(`${debtService}*12`, 'currency')]);
+  addRow(expenseSheet, ['Cash Flow', formula(cashFlow, 'currency', m.cashFlow), formula(`${cashFlow}*12`, 'currency')]);
+
+  return [inputs, calcs, amortization, expenseSheet];
+};
+
+export const exportUnderwritingWorkbook = (p: Property) => {
+  downloadFile(`${toFileName(p.address)}-underwriting.xlsx`, buildXlsx(buildUnderwritingWorkbook(p)), XLSX_MIME_TYPE);
+};